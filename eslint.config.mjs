@@ -0,0 +1,16 @@
+import { dirname } from "path";
+import { fileURLToPath } from "url";
+import { FlatCompat } from "@eslint/eslintrc";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const compat = new FlatCompat({
+  baseDirectory: __dirname,
+});
+
+// The library's types lean on `any` and `{}` on purpose, so the
+// typescript-eslint rules of "next/typescript" are left out
+const eslintConfig = [...compat.extends("next/core-web-vitals")];
+
+export default eslintConfig;
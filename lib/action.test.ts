@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { z } from "zod";
+import { createAction } from "./action";
+import { withSchema } from "./api-builder";
+import { createMemoryRateLimitStore } from "./rate-limit";
+
+const renamePost = withSchema(
+  {
+    params: z.object({ slug: z.string().default("draft") }),
+    body: z.object({ title: z.string(), pinned: z.boolean() }),
+  },
+  async ({ params, body }) => ({ slug: params.slug, ...body })
+);
+
+describe("actions", () => {
+  it("reads FormData as the body of a handler declaring parts", async () => {
+    const formData = new FormData();
+    formData.set("title", "Renamed");
+    formData.set("pinned", "true");
+
+    const result = await createAction(renamePost)(formData);
+
+    assert.deepEqual(result, {
+      data: { slug: "draft", title: "Renamed", pinned: true },
+    });
+  });
+
+  it("answers calls over its rate limit with an error", async () => {
+    const action = createAction(renamePost, {
+      rateLimit: {
+        algorithm: "fixed-window",
+        limit: 1,
+        window: 60,
+        name: "rename-post",
+        key: () => "user:1",
+        store: createMemoryRateLimitStore(),
+      },
+    });
+    const input = { body: { title: "Renamed", pinned: false } };
+
+    const first = await action(input);
+    const second = await action(input);
+
+    assert.equal(first.error, undefined);
+    assert.equal(second.error?.code, "TOO_MANY_REQUESTS");
+    assert.deepEqual(second.error?.data, { retryAfter: 60 });
+  });
+});
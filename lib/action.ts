@@ -0,0 +1,189 @@
+import { NextRequest } from "next/server";
+import {
+  createHandlerResponse,
+  parseOutput,
+  toApiError,
+  type HandlerContext,
+  type InferError,
+  type InferInput,
+  type InferOutput,
+  type SchemaHandler,
+} from "./api-builder";
+import {
+  TooManyRequests,
+  ValidationError,
+  type ApiError,
+  type InvalidBodyError,
+  type MethodNotAllowedError,
+  type TooManyRequestsError,
+  type UnknownApiError,
+} from "./api-error";
+import { logUnexpectedError, resolveRequestId } from "./observability";
+import { coerceQuery, parseFormData } from "./query";
+import { consumeRateLimit, type RateLimitOptions } from "./rate-limit";
+
+// Serializable form of an ApiError, as Server Actions can only return
+// plain objects
+export type ActionError<TError> = TError extends ApiError<
+  infer TCode,
+  infer TData
+>
+  ? { message: string; code: TCode; data: TData }
+  : never;
+
+export type ActionResult<TOutput, TError> =
+  | { data: TOutput; error?: undefined; fieldErrors?: undefined }
+  | {
+      data?: undefined;
+      error: ActionError<TError>;
+      // Issue messages by dotted field path, empty unless validation failed
+      fieldErrors: Record<string, string[]>;
+    };
+
+// Errors an action can produce: HTTP-only failures can't happen without
+// HTTP, and TOO_MANY_REQUESTS comes from its `rateLimit`
+type InferActionError<THandler> =
+  | Exclude<
+      InferError<THandler>,
+      MethodNotAllowedError | InvalidBodyError | UnknownApiError
+    >
+  | TooManyRequestsError;
+
+type InferActionResult<THandler> = ActionResult<
+  InferOutput<THandler>,
+  InferActionError<THandler>
+>;
+
+// Callable with the input alone (`<form action>` or a direct call) or with
+// the previous state first, as `useActionState` does
+export type ServerAction<TInput, TResult> = {
+  (input: TInput | FormData): Promise<TResult>;
+  (state: TResult | null, input: TInput | FormData): Promise<TResult | null>;
+};
+
+// Actions have no route to be counted under, so limits need a name. Give a
+// route's limit the same one to share its count.
+export type ActionRateLimit<TContext> = RateLimitOptions<TContext> & {
+  name: string;
+};
+
+export type ActionOptions<TContext> = {
+  // Context for the handler, e.g. what its route's middleware would add.
+  // Defaults to a request carrying the incoming headers and no params.
+  context?: () => TContext | Promise<TContext>;
+  // Limits checked before the input is validated, as routes do
+  rateLimit?: ActionRateLimit<TContext> | ActionRateLimit<TContext>[];
+};
+
+// The context a handler was written against, e.g. with the fields of the
+// middleware of the createApiHandler it's declared in
+type InferContext<THandler> = THandler extends {
+  handler: (input: any, context: infer TContext) => any;
+}
+  ? TContext
+  : never;
+
+// Options are required when the default context lacks what the handler
+// expects, so it can't run without e.g. the viewer its middleware adds
+type ActionArgs<TContext> = HandlerContext extends TContext
+  ? [options?: ActionOptions<TContext>]
+  : [
+      options: ActionOptions<TContext> & {
+        context: NonNullable<ActionOptions<TContext>["context"]>;
+      }
+    ];
+
+// The context actions run with by default, to build a fuller one from
+export async function actionContext(): Promise<HandlerContext> {
+  let headers: HeadersInit = {};
+  try {
+    // Only available while Next is handling a request
+    const { headers: requestHeaders } = await import("next/headers");
+    headers = await requestHeaders();
+  } catch {}
+
+  const req = new NextRequest("http://localhost/", { headers });
+  return {
+    req,
+    params: {},
+    // Actions return data, not a Response, so this goes unused
+    response: createHandlerResponse(),
+    requestId: resolveRequestId(req),
+  };
+}
+
+function toActionError(error: ApiError) {
+  return { message: error.message, code: error.code, data: error.data };
+}
+
+// Throw for the longest wait when any limit is exceeded
+async function checkRateLimits(
+  limits: ActionRateLimit<any>[],
+  context: HandlerContext
+) {
+  const results = await Promise.all(
+    limits.map((limit) => consumeRateLimit(limit, context, limit.name))
+  );
+  const limited = results
+    .filter((result) => !result.allowed)
+    .sort((a, b) => b.retryAfter - a.retryAfter)[0];
+  if (limited) {
+    throw TooManyRequests({ retryAfter: limited.retryAfter });
+  }
+}
+
+// Form fields only carry strings, so coerce them like a query string. A
+// handler declaring parts gets them as its body.
+function fromFormData(formData: FormData, schemaHandler: SchemaHandler<any>) {
+  const fields = parseFormData(formData);
+  const { parts } = schemaHandler;
+  if (!parts) return coerceQuery(fields, schemaHandler.schema);
+  return { body: parts.body ? coerceQuery(fields, parts.body) : {} };
+}
+
+// Expose a withSchema handler as a Server Action, validating FormData or
+// object input with the same schema its route uses. For a handler declaring
+// parts, FormData is its body.
+export function createAction<THandler extends SchemaHandler<any>>(
+  schemaHandler: THandler,
+  ...[options = {}]: ActionArgs<InferContext<THandler>>
+): ServerAction<InferInput<THandler>, InferActionResult<THandler>> {
+  const limits = [options.rateLimit ?? []].flat();
+
+  const run = async (input: unknown) => {
+    try {
+      const context = options.context
+        ? await options.context()
+        : await actionContext();
+      await checkRateLimits(limits, context as HandlerContext);
+
+      const rawInput =
+        input instanceof FormData ? fromFormData(input, schemaHandler) : input;
+
+      const validationResult = schemaHandler.schema.safeParse(rawInput);
+      if (!validationResult.success) {
+        throw new ValidationError(validationResult.error.issues);
+      }
+
+      const result = await schemaHandler.handler(
+        validationResult.data,
+        context
+      );
+      return { data: parseOutput(schemaHandler, result) };
+    } catch (error) {
+      logUnexpectedError(error);
+      const apiError = toApiError(error);
+      return {
+        error: toActionError(apiError),
+        fieldErrors:
+          apiError instanceof ValidationError ? apiError.fieldErrors : {},
+      };
+    }
+  };
+
+  return (async (...args: unknown[]) =>
+    run(args.length >= 2 ? args[1] : args[0])) as ServerAction<
+    InferInput<THandler>,
+    InferActionResult<THandler>
+  >;
+}
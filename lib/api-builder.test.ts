@@ -0,0 +1,265 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createApiHandler, parseOutput, withSchema } from "./api-builder";
+import type { RouteHandlerFn } from "./server-caller";
+
+// Route handlers are typed as their definitions, for inference
+function get(routeHandler: unknown, url = "http://localhost/api/user") {
+  return (routeHandler as RouteHandlerFn)(new NextRequest(url), {
+    params: Promise.resolve({}),
+  });
+}
+
+const userSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  tags: z.array(z.object({ name: z.string() })).optional(),
+});
+
+function userRoute(result: unknown, onOutputError?: "throw" | "log") {
+  return createApiHandler({
+    GET: withSchema(
+      { input: z.object({}), output: userSchema, onOutputError },
+      async () => result as z.input<typeof userSchema>
+    ),
+  }).GET;
+}
+
+describe("output schemas", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("strips unknown keys from a valid result", async () => {
+    const res = await get(
+      userRoute({ id: "1", createdAt: "now", passwordHash: "x" })
+    );
+    assert.deepEqual(await res.json(), { id: "1", createdAt: "now" });
+  });
+
+  it("sends only declared keys of an invalid result in production", async () => {
+    const env = process.env as Record<string, string | undefined>;
+    const nodeEnv = env.NODE_ENV;
+    env.NODE_ENV = "production";
+    const logged = mock.method(console, "error", () => undefined);
+    try {
+      const res = await get(
+        userRoute({
+          id: "1",
+          passwordHash: "secret",
+          tags: [{ name: "a", internal: true }],
+        })
+      );
+
+      assert.equal(res.status, 200);
+      assert.deepEqual(await res.json(), { id: "1", tags: [{ name: "a" }] });
+      assert.equal(logged.mock.callCount(), 1);
+    } finally {
+      env.NODE_ENV = nodeEnv;
+    }
+  });
+
+  it("drops objects sent where a scalar belongs", async () => {
+    mock.method(console, "error", () => undefined);
+    const res = await get(userRoute({ id: { secret: true } }, "log"));
+    assert.deepEqual(await res.json(), {});
+  });
+
+  it("fails with a 500 in throw mode", async () => {
+    mock.method(console, "error", () => undefined);
+    const res = await get(userRoute({ id: "1" }, "throw"));
+    assert.equal(res.status, 500);
+  });
+});
+
+describe("stripping invalid results", () => {
+  afterEach(() => mock.restoreAll());
+
+  // What's sent of a result the schema rejects, in "log" mode
+  function strip(output: z.ZodType, result: unknown) {
+    mock.method(console, "error", () => undefined);
+    const handler = withSchema(
+      { input: z.object({}), output, onOutputError: "log" },
+      async () => result
+    );
+    return parseOutput(handler, result);
+  }
+
+  const item = z.object({ id: z.string() });
+
+  it("keeps what either side of an intersection declares", () => {
+    const schema = z.intersection(item, z.object({ name: z.string() }));
+
+    assert.deepEqual(strip(schema, { id: 1, name: "a", secret: "x" }), {
+      id: 1,
+      name: "a",
+    });
+  });
+
+  it("strips tuple items and drops extra ones", () => {
+    const schema = z.tuple([item, z.string()]);
+
+    assert.deepEqual(
+      strip(schema, [{ id: "1", secret: "x" }, { secret: "x" }, "extra"]),
+      [{ id: "1" }, undefined]
+    );
+  });
+
+  it("strips the contents of maps and sets", () => {
+    const map = strip(
+      z.map(z.string(), item),
+      new Map([["a", { id: 1, secret: "x" }]])
+    );
+    const set = strip(z.set(item), new Set([{ id: 1, secret: "x" }]));
+
+    assert.deepEqual(map, new Map([["a", { id: 1 }]]));
+    assert.deepEqual(set, new Set([{ id: 1 }]));
+  });
+
+  it("keeps files and sends nothing for values it can't check", () => {
+    const avatar = new File(["png"], "avatar.png");
+    const schema = z.object({
+      id: z.string(),
+      avatar: z.file(),
+      computed: z.transform((value) => value),
+      meta: z.custom<object>(),
+    });
+
+    assert.deepEqual(
+      strip(schema, { id: 1, avatar, computed: "x", meta: { secret: "x" } }),
+      { id: 1, avatar, computed: undefined, meta: undefined }
+    );
+  });
+});
+
+describe("input", () => {
+  it("coerces path params alongside a JSON body", async () => {
+    const { PUT } = createApiHandler.route("/api/items/[id]")({
+      PUT: withSchema(
+        z.object({ id: z.number(), name: z.string() }),
+        async (input) => input
+      ),
+    });
+    const res = await (PUT as unknown as RouteHandlerFn)(
+      new NextRequest("http://localhost/api/items/7", {
+        method: "PUT",
+        body: JSON.stringify({ name: "7" }),
+        headers: { "Content-Type": "application/json" },
+      }),
+      { params: Promise.resolve({ id: "7" }) }
+    );
+    // The body keeps its types: "7" stays a string
+    assert.deepEqual(await res.json(), { id: 7, name: "7" });
+  });
+});
+
+describe("streams", () => {
+  it("resumes after the Last-Event-ID a reconnecting client sends", async () => {
+    const { GET } = createApiHandler({
+      GET: withSchema(z.object({}), async function* (_, { lastEventId }) {
+        const first = lastEventId === undefined ? 0 : lastEventId + 1;
+        for (let step = first; step < 4; step++) yield { step };
+      }),
+    });
+    const res = await (GET as unknown as RouteHandlerFn)(
+      new NextRequest("http://localhost/api/steps", {
+        headers: { "Last-Event-ID": "1" },
+      }),
+      { params: Promise.resolve({}) }
+    );
+    const events = (await res.text())
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    assert.deepEqual(events, [
+      { id: 2, data: { step: 2 } },
+      { id: 3, data: { step: 3 } },
+      { end: true },
+    ]);
+  });
+});
+
+describe("request bodies", () => {
+  it("rejects an unknown X-Data-Transformer with a 400", async () => {
+    const { POST } = createApiHandler({
+      POST: withSchema(z.object({ name: z.string() }), async (input) => input),
+    });
+    const res = await (POST as unknown as RouteHandlerFn)(
+      new NextRequest("http://localhost/api/items", {
+        method: "POST",
+        body: JSON.stringify({ name: "a" }),
+        headers: {
+          "Content-Type": "application/json",
+          "X-Data-Transformer": "made-up",
+        },
+      }),
+      { params: Promise.resolve({}) }
+    );
+    assert.equal(res.status, 400);
+    assert.equal((await res.json()).code, "INVALID_BODY");
+  });
+});
+
+describe("methods", () => {
+  const route = () =>
+    createApiHandler({
+      GET: withSchema(z.object({}), async () => ({ users: [] }), {
+        cache: { maxAge: 30 },
+      }),
+      POST: async () => ({ ok: true }),
+    });
+  const send = (routeHandler: unknown, method: string) =>
+    (routeHandler as RouteHandlerFn)(
+      new NextRequest("http://localhost/api/users", { method }),
+      { params: Promise.resolve({}) }
+    );
+
+  it("answers methods without a handler with a 405 and Allow", async () => {
+    const res = await send(route().DELETE, "DELETE");
+
+    assert.equal(res.status, 405);
+    assert.equal(res.headers.get("Allow"), "GET, POST, HEAD, OPTIONS");
+    assert.equal((await res.json()).code, "METHOD_NOT_ALLOWED");
+  });
+
+  it("answers HEAD with GET's status and headers and no body", async () => {
+    const { GET, HEAD } = route();
+
+    const get = await send(GET, "GET");
+    const head = await send(HEAD, "HEAD");
+
+    assert.equal(head.status, 200);
+    assert.ok(get.headers.get("ETag"));
+    assert.equal(head.headers.get("ETag"), get.headers.get("ETag"));
+    assert.equal(
+      head.headers.get("Cache-Control"),
+      get.headers.get("Cache-Control")
+    );
+    assert.equal(head.headers.get("Content-Type"), "application/json");
+    assert.equal(await head.text(), "");
+  });
+
+  it("answers OPTIONS with the route's methods", async () => {
+    const res = await send(route().OPTIONS, "OPTIONS");
+
+    assert.equal(res.status, 204);
+    assert.equal(res.headers.get("Allow"), "GET, POST, HEAD, OPTIONS");
+  });
+});
+
+describe("status", () => {
+  it("answers with the status the handler declares", async () => {
+    const { POST } = createApiHandler({
+      POST: withSchema(z.object({}), async () => ({ id: "1" }), {
+        status: 201,
+      }),
+    });
+    const res = await (POST as unknown as RouteHandlerFn)(
+      new NextRequest("http://localhost/api/users", { method: "POST" }),
+      { params: Promise.resolve({}) }
+    );
+
+    assert.equal(res.status, 201);
+    assert.deepEqual(await res.json(), { id: "1" });
+  });
+});
@@ -1,139 +1,1146 @@
-import { NextRequest } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import {
+  ApiError,
+  IdempotencyConflict,
+  IdempotencyKeyMismatch,
+  TooManyRequests,
+  ValidationError,
+  type ErrorDefinition,
+  type IdempotencyError,
+  type InferErrorDefinition,
+  type InternalServerError,
+  type InvalidBodyError,
+  type MethodNotAllowedError,
+  type TooManyRequestsError,
+  type UnknownApiError,
+} from "./api-error";
+import {
+  cacheControl,
+  computeEtag,
+  matchesEtag,
+  runCached,
+  type CacheOptions,
+} from "./cache";
+import {
+  assertCorsOptions,
+  corsHeaders,
+  optionsResponse,
+  withCorsHeaders,
+  type CorsOptions,
+} from "./cors";
+import {
+  runIdempotent,
+  SAFE_METHODS,
+  type IdempotencyOptions,
+} from "./idempotency";
+import {
+  BODY_METHODS,
+  coerceQuery,
+  isPlainObject,
+  parseFormData,
+  parseQuery,
+} from "./query";
+import {
+  observeRequest,
+  type Observation,
+  type ObservabilityOptions,
+} from "./observability";
+import { runRateLimited, type RateLimitOptions } from "./rate-limit";
+import {
+  TRANSFORMER_HEADER,
+  findTransformer,
+  type DataTransformer,
+  type WireFormat,
+  type WireValue,
+} from "./transformer";
+import {
+  isStreamSource,
+  negotiateStreamFormat,
+  readLastEventId,
+  toStreamResponse,
+  type StreamChunk,
+  type StreamSource,
+} from "./stream";
 
-type RegularHandler = (
+// Path params by segment: [id] is a string, [...slug] a string array and
+// [[...slug]] an optional string array
+type ParamSegment<TSegment extends string> = TSegment extends `[...${infer Name}`
+  ? { [K in Name]?: string[] }
+  : TSegment extends `...${infer Name}`
+  ? { [K in Name]: string[] }
+  : { [K in TSegment]: string };
+
+type CollectPathParams<TPath extends string> =
+  TPath extends `${string}[${infer Segment}]${infer Rest}`
+    ? ParamSegment<Segment> &
+        CollectPathParams<Rest extends `]${infer AfterOptional}` ? AfterOptional : Rest>
+    : {};
+
+// e.g. PathParams<"/api/users/[id]"> is { id: string }
+export type PathParams<TPath extends string> = {
+  [K in keyof CollectPathParams<TPath>]: CollectPathParams<TPath>[K];
+};
+
+type DefaultParams = Record<string, string | string[] | undefined>;
+
+// Set by handlers and middleware to shape the response sent for a result,
+// e.g. `response.status = 201` or `response.cookies.set("session", id)`
+export type HandlerResponse = {
+  // Status of a successful response (default 200); 204 and 205 have no body
+  status?: number;
+  headers: Headers;
+  // Writes Set-Cookie headers
+  cookies: NextResponse["cookies"];
+};
+
+export type HandlerContext<TParams = DefaultParams> = {
+  req: NextRequest;
+  params: TParams;
+  response: HandlerResponse;
+  // Correlation id of the request, also sent back in X-Request-Id
+  requestId: string;
+  // Id of the last chunk a reconnecting stream client received; a
+  // streaming handler resumes after it
+  lastEventId?: number;
+};
+
+export function createHandlerResponse(): HandlerResponse {
+  // A draft NextResponse keeps cookies and headers in sync
+  const draft = new NextResponse(null);
+  return { headers: draft.headers, cookies: draft.cookies };
+}
+
+type ErrorDefinitions = readonly ErrorDefinition<string, any>[];
+
+// What to do when a handler result doesn't match its output schema
+type OutputErrorMode = "throw" | "log";
+
+type RegularHandler<TContext = HandlerContext> = (
   input: any,
-  context: { req: NextRequest; params?: any }
+  context: TContext
 ) => any;
 
-type SchemaHandler = {
+// Schemas for the parts of a request, each validated on its own
+export type InputParts = {
+  // Path params, e.g. { id } for /api/users/[id]
+  params?: z.ZodType;
+  // The query string, for any method
+  query?: z.ZodType;
+  // The JSON or form body
+  body?: z.ZodType;
+  // Request headers, keyed by lower-case name
+  headers?: z.ZodType;
+};
+
+type DeclaredPart<TParts> = {
+  [K in Extract<keyof TParts, keyof InputParts>]: TParts[K] extends z.ZodType
+    ? K
+    : never;
+}[Extract<keyof TParts, keyof InputParts>];
+
+// What a handler declaring parts receives: each of them, parsed
+export type PartsOutput<TParts> = {
+  [K in DeclaredPart<TParts>]: z.output<TParts[K] & z.ZodType>;
+};
+
+// What callers send: parts whose fields are all optional may be left out
+export type PartsInput<TParts> = {
+  [K in DeclaredPart<TParts> as {} extends z.input<TParts[K] & z.ZodType>
+    ? never
+    : K]: z.input<TParts[K] & z.ZodType>;
+} & {
+  [K in DeclaredPart<TParts> as {} extends z.input<TParts[K] & z.ZodType>
+    ? K
+    : never]?: z.input<TParts[K] & z.ZodType>;
+};
+
+export type SchemaHandler<TContext = HandlerContext> = {
   schema: z.ZodSchema;
-  handler: (input: any, context: { req: NextRequest; params?: any }) => any;
+  // Set when the handler declares separate parts instead of one input
+  parts?: InputParts;
+  outputSchema?: z.ZodSchema;
+  handler: (input: any, context: TContext) => any;
+  errors?: ErrorDefinitions;
+  onOutputError?: OutputErrorMode;
+  cache?: CacheOptions;
+  status?: number;
   __isSchemaHandler: true;
 };
 
-type Handler = RegularHandler | SchemaHandler;
+type Handler<TContext = HandlerContext> =
+  | RegularHandler<TContext>
+  | SchemaHandler<TContext>;
+
+type NextFunction<TAdded extends object> = {} extends TAdded
+  ? (added?: TAdded) => Promise<Response>
+  : (added: TAdded) => Promise<Response>;
+
+// Middleware wraps input validation and the handler. It can return its own
+// Response to short-circuit, or call `next` with fields to add to the context
+export type Middleware<
+  TAdded extends object = {},
+  TContext = HandlerContext
+> = (
+  context: TContext,
+  next: NextFunction<TAdded>
+) => Response | Promise<Response>;
 
-type RouteHandlerWithMetadata<T> = T & {
-  __handler: T;
+// Helper function to declare middleware with the context fields it adds, e.g.
+// createMiddleware<{ user: User }>(async ({ req }, next) => next({ user }))
+export function createMiddleware<
+  TAdded extends object = {},
+  TContext = HandlerContext
+>(middleware: Middleware<TAdded, TContext>) {
+  return middleware;
+}
+
+// `__wire` records how the route serializes its output, for InferOutput,
+// and `__routeErrors` what the builder adds to InferError
+type RouteHandlerWithMetadata<T, TWire extends WireFormat, TErrors> = T & {
+  __handler: T & { __wire?: TWire; __routeErrors?: [TErrors] };
 };
 
-type RoutesWithHandlers<THandlers extends Record<string, Handler>> = {
-  [K in keyof THandlers]: RouteHandlerWithMetadata<THandlers[K]>;
+// Errors the builder adds to some of a route's methods, e.g. with
+// `.rateLimit()`
+type RouteError = { method: string; error: ApiError<string, any> };
+
+// Methods `.idempotency()` deduplicates
+type UnsafeMethod = "POST" | "PUT" | "PATCH" | "DELETE";
+
+type RouteErrorsFor<TRouteErrors, TMethod> = TRouteErrors extends {
+  method: infer M;
+  error: infer E;
+}
+  ? TMethod extends M
+    ? E
+    : never
+  : never;
+
+type RoutesWithHandlers<
+  THandlers extends Record<string, Handler<any>>,
+  TWire extends WireFormat = "json",
+  TRouteErrors extends RouteError = never
+> = {
+  [K in keyof THandlers]: RouteHandlerWithMetadata<
+    THandlers[K],
+    TWire,
+    RouteErrorsFor<TRouteErrors, K>
+  >;
 } & {
   __handlers: THandlers;
 };
 
-// Helper function to create a handler with schema validation
-export function withSchema<TSchema extends z.ZodSchema, TOutput>(
-  schema: TSchema,
-  handler: (
-    input: z.infer<TSchema>,
-    context: { req: NextRequest; params?: any }
-  ) => TOutput
-): {
+type SchemaHandlerOptions<TErrors extends ErrorDefinitions> = {
+  // Errors the handler may throw, surfaced as a typed union on the client
+  errors?: TErrors;
+  // Cache-Control and Next data cache settings for GET responses
+  cache?: CacheOptions;
+  // Status of successful responses (default 200), also the one documented
+  // in OpenAPI. Handlers can still set another on `response`.
+  status?: number;
+};
+
+type SchemaHandlerConfig<
+  TSchema extends z.ZodSchema,
+  TOutputSchema extends z.ZodSchema | undefined,
+  TErrors extends ErrorDefinitions
+> = SchemaHandlerOptions<TErrors> & {
+  input: TSchema;
+  // Validates and strips the handler result before it is sent
+  output?: TOutputSchema;
+  // Defaults to "throw" in development and "log" in production
+  onOutputError?: OutputErrorMode;
+};
+
+type PartsHandlerConfig<
+  TOutputSchema extends z.ZodSchema | undefined,
+  TErrors extends ErrorDefinitions
+> = SchemaHandlerOptions<TErrors> & {
+  output?: TOutputSchema;
+  onOutputError?: OutputErrorMode;
+};
+
+type SchemaHandlerDefinition<
+  TSchema extends z.ZodSchema,
+  TOutputSchema extends z.ZodSchema | undefined,
+  TOutput,
+  TErrors extends ErrorDefinitions,
+  TContext = HandlerContext
+> = {
   schema: TSchema;
-  handler: typeof handler;
+  parts?: InputParts;
+  outputSchema: TOutputSchema;
+  handler: (input: z.infer<TSchema>, context: TContext) => TOutput;
+  errors: TErrors;
+  onOutputError?: OutputErrorMode;
+  cache?: CacheOptions;
+  status?: number;
   __isSchemaHandler: true;
   __inferredOutput: TOutput;
-} {
+};
+
+// Helper function to create a handler with schema validation. The context
+// type is picked up from the middleware of the enclosing createApiHandler
+export function withSchema<
+  TSchema extends z.ZodSchema,
+  TOutput,
+  const TErrors extends ErrorDefinitions = [],
+  TContext = HandlerContext
+>(
+  schema: TSchema,
+  handler: (input: z.infer<TSchema>, context: TContext) => TOutput,
+  options?: SchemaHandlerOptions<TErrors>
+): SchemaHandlerDefinition<TSchema, undefined, TOutput, TErrors, TContext>;
+// Pass `{ input, output }` to also validate what the handler returns
+export function withSchema<
+  TSchema extends z.ZodSchema,
+  TOutputSchema extends z.ZodSchema | undefined,
+  TOutput extends TOutputSchema extends z.ZodSchema
+    ?
+        | z.input<TOutputSchema>
+        | Promise<z.input<TOutputSchema>>
+        // Streams are validated chunk by chunk
+        | StreamSource<z.input<TOutputSchema>>
+    : unknown,
+  const TErrors extends ErrorDefinitions = [],
+  TContext = HandlerContext
+>(
+  config: SchemaHandlerConfig<TSchema, TOutputSchema, TErrors>,
+  handler: (input: z.infer<TSchema>, context: TContext) => TOutput
+): SchemaHandlerDefinition<
+  TSchema,
+  TOutputSchema,
+  TOutput,
+  TErrors,
+  TContext
+>;
+// Pass `{ params, query, body, headers }` to read each part of the request
+// from its own channel and validate it on its own
+export function withSchema<
+  const TParts extends InputParts,
+  TOutputSchema extends z.ZodSchema | undefined,
+  TOutput extends TOutputSchema extends z.ZodSchema
+    ?
+        | z.input<TOutputSchema>
+        | Promise<z.input<TOutputSchema>>
+        | StreamSource<z.input<TOutputSchema>>
+    : unknown,
+  const TErrors extends ErrorDefinitions = [],
+  TContext = HandlerContext
+>(
+  config: TParts & PartsHandlerConfig<TOutputSchema, TErrors>,
+  handler: (input: PartsOutput<TParts>, context: TContext) => TOutput
+): SchemaHandlerDefinition<
+  z.ZodType<PartsOutput<TParts>, PartsInput<TParts>>,
+  TOutputSchema,
+  TOutput,
+  TErrors,
+  TContext
+> & { parts: TParts };
+export function withSchema(
+  schemaOrConfig:
+    | z.ZodSchema
+    | SchemaHandlerConfig<any, any, any>
+    | (InputParts & PartsHandlerConfig<any, any>),
+  handler: (input: any, context: any) => any,
+  options?: SchemaHandlerOptions<any>
+): SchemaHandlerDefinition<any, any, any, any, any> {
+  const config =
+    schemaOrConfig instanceof z.ZodType
+      ? { ...options, input: schemaOrConfig }
+      : schemaOrConfig;
+  const parts = "input" in config ? undefined : pickParts(config);
+
   return {
-    schema,
+    schema: "input" in config ? config.input : partsSchema(parts!),
+    parts,
+    outputSchema: config.output,
     handler,
+    errors: config.errors ?? [],
+    onOutputError: config.onOutputError,
+    cache: config.cache,
+    status: config.status,
     __isSchemaHandler: true as const,
-    __inferredOutput: undefined as any as TOutput,
+    __inferredOutput: undefined,
   };
 }
 
-export function createApiHandler<THandlers extends Record<string, Handler>>(
-  handlers: THandlers
-): RoutesWithHandlers<THandlers> {
+const INPUT_PARTS = ["params", "query", "body", "headers"] as const;
+
+function pickParts(config: InputParts): InputParts {
+  return Object.fromEntries(
+    INPUT_PARTS.filter((part) => config[part]).map((part) => [
+      part,
+      config[part],
+    ])
+  );
+}
+
+// One schema over every declared part, so issues say which part they're
+// about, e.g. ["body", "email"]. Parts a caller leaves out, e.g. all but the
+// body of a Server Action given FormData, are validated as empty.
+function partsSchema(parts: InputParts) {
+  return z.object(
+    Object.fromEntries(
+      Object.entries(parts).map(([part, schema]) => [
+        part,
+        schema.prefault({}),
+      ])
+    )
+  );
+}
+
+// Run a handler result through its output schema, if it declares one
+export function parseOutput(schemaHandler: SchemaHandler<any>, result: unknown) {
+  if (!schemaHandler.outputSchema) {
+    return result;
+  }
+
+  const outputResult = schemaHandler.outputSchema.safeParse(result);
+  if (outputResult.success) {
+    return outputResult.data;
+  }
+
+  const mode =
+    schemaHandler.onOutputError ??
+    (process.env.NODE_ENV === "production" ? "log" : "throw");
+
+  if (mode === "throw") {
+    throw new Error(
+      `Output validation failed:\n${z.prettifyError(outputResult.error)}`
+    );
+  }
+
+  // Sending the result as is could leak what the schema exists to strip,
+  // so only the parts it declares go out
+  console.error("API Output Validation Error:", outputResult.error.issues);
+  return stripToSchema(schemaHandler.outputSchema, result);
+}
+
+// Best-effort copy of `value` holding only what `schema` declares: object
+// keys outside its shape are dropped, and values of the wrong kind with them
+function stripToSchema(schema: z.ZodType, value: unknown): unknown {
+  const def = (schema as any)._zod.def;
+
+  switch (def.type) {
+    case "optional":
+    case "nullable":
+    case "default":
+    case "prefault":
+    case "readonly":
+    case "catch":
+    case "nonoptional":
+      return value === null || value === undefined
+        ? value
+        : stripToSchema(def.innerType, value);
+    case "pipe":
+      return stripToSchema(def.in, value);
+    case "lazy":
+      return stripToSchema(def.getter(), value);
+    case "any":
+    case "unknown":
+      return value;
+    case "object": {
+      if (!isPlainObject(value)) return undefined;
+      const stripped: Record<string, unknown> = {};
+      for (const [key, fieldSchema] of Object.entries(def.shape)) {
+        if (value[key] === undefined) continue;
+        stripped[key] = stripToSchema(fieldSchema as z.ZodType, value[key]);
+      }
+      return stripped;
+    }
+    case "array":
+      return Array.isArray(value)
+        ? value.map((item) => stripToSchema(def.element, item))
+        : undefined;
+    case "record":
+      return isPlainObject(value)
+        ? Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [
+              key,
+              stripToSchema(def.valueType, item),
+            ])
+          )
+        : undefined;
+    case "union": {
+      // The option the value matches, else the first it can be cut down to
+      const match = def.options.find(
+        (option: z.ZodType) => option.safeParse(value).success
+      );
+      if (match) return match.parse(value);
+      for (const option of def.options) {
+        const stripped = stripToSchema(option, value);
+        if (stripped !== undefined) return stripped;
+      }
+      return undefined;
+    }
+    case "intersection": {
+      // What either side declares; objects are merged
+      const left = stripToSchema(def.left, value);
+      const right = stripToSchema(def.right, value);
+      if (left === undefined || right === undefined) return undefined;
+      return isPlainObject(left) && isPlainObject(right)
+        ? { ...left, ...right }
+        : left;
+    }
+    case "tuple":
+      return Array.isArray(value)
+        ? (def.rest ? value : value.slice(0, def.items.length)).map(
+            (item, index) => stripToSchema(def.items[index] ?? def.rest, item)
+          )
+        : undefined;
+    case "map":
+      return value instanceof Map
+        ? new Map(
+            Array.from(value, ([key, item]) => [
+              stripToSchema(def.keyType, key),
+              stripToSchema(def.valueType, item),
+            ])
+          )
+        : undefined;
+    case "set":
+      return value instanceof Set
+        ? new Set(
+            Array.from(value, (item) => stripToSchema(def.valueType, item))
+          )
+        : undefined;
+    case "file":
+      return value instanceof File ? value : undefined;
+    case "string":
+    case "number":
+    case "bigint":
+    case "boolean":
+    case "date":
+    case "symbol":
+    case "null":
+    case "undefined":
+    case "void":
+    case "nan":
+    case "literal":
+    case "enum":
+    case "template_literal":
+      // Scalars: an object in their place could hold anything
+      return value !== null &&
+        typeof value === "object" &&
+        !(value instanceof Date)
+        ? undefined
+        : value;
+    default:
+      // Nothing to check the value against, e.g. a transform or a custom
+      // schema, so nothing is sent
+      return undefined;
+  }
+}
+
+const FORM_CONTENT_TYPES = [
+  "multipart/form-data",
+  "application/x-www-form-urlencoded",
+];
+
+// Read a request body as form data or JSON. An empty body is `{}`, but a
+// malformed one is rejected rather than silently dropped.
+async function readBody(req: NextRequest, transformer?: DataTransformer) {
+  const contentType = req.headers.get("content-type") ?? "";
+
+  if (FORM_CONTENT_TYPES.some((type) => contentType.includes(type))) {
+    const formData = await req.formData().catch(() => {
+      throw new ApiError(400, "INVALID_BODY", "Malformed form body");
+    });
+    return { body: parseFormData(formData), isForm: true };
+  }
+
+  const text = await req.text();
+  if (!text.trim()) {
+    return { body: {}, isForm: false };
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new ApiError(400, "INVALID_BODY", "Malformed JSON body");
+  }
+  // The header and the encoding both come from the caller, so neither
+  // failing is a server error
+  try {
+    const bodyTransformer = findTransformer(
+      req.headers.get(TRANSFORMER_HEADER),
+      transformer
+    );
+    if (bodyTransformer) {
+      body = bodyTransformer.deserialize(body);
+    }
+  } catch (error) {
+    throw new ApiError(
+      400,
+      "INVALID_BODY",
+      error instanceof Error ? error.message : "Malformed body encoding"
+    );
+  }
+  if (body === null || typeof body !== "object" || Array.isArray(body)) {
+    throw new ApiError(400, "INVALID_BODY", "Request body must be a JSON object");
+  }
+  return { body: body as Record<string, unknown>, isForm: false };
+}
+
+// Read each declared part from its own channel. All but a JSON body arrive
+// as strings, so they're coerced to the types their schemas expect.
+async function readParts(
+  req: NextRequest,
+  parts: InputParts,
+  params: Record<string, unknown>,
+  transformer?: DataTransformer
+) {
+  const input: Record<string, unknown> = {};
+  if (parts.params) {
+    input.params = coerceQuery(params, parts.params);
+  }
+  if (parts.query) {
+    const query = parseQuery(new URL(req.url).searchParams);
+    input.query = coerceQuery(query, parts.query);
+  }
+  if (parts.body) {
+    const { body, isForm } = await readBody(req, transformer);
+    input.body = isForm ? coerceQuery(body, parts.body) : body;
+  }
+  if (parts.headers) {
+    const headers = Object.fromEntries(req.headers);
+    input.headers = coerceQuery(headers, parts.headers);
+  }
+  return input;
+}
+
+export function toApiError(error: unknown) {
+  // Errors thrown on purpose carry their own status and payload
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  return new ApiError(
+    500,
+    "INTERNAL_SERVER_ERROR",
+    error instanceof Error ? error.message : "Internal server error"
+  );
+}
+
+// Headers and cookies set before the failure are kept, the status isn't
+function toErrorResponse(error: unknown, handlerResponse?: HandlerResponse) {
+  const apiError = toApiError(error);
+  const headers = new Headers(handlerResponse?.headers);
+  headers.set("Content-Type", "application/json");
+  return new Response(JSON.stringify(apiError.toJSON()), {
+    status: apiError.status,
+    headers,
+  });
+}
+
+// Statuses whose responses can't carry a body
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+// HEAD runs the GET handler, so it's cached and tagged like GET
+const READ_METHODS = ["GET", "HEAD"];
+
+// Async generators and ReadableStreams are streamed as NDJSON or SSE, a
+// Response is sent untouched and anything else is sent as JSON. Successful
+// GET responses carry an ETag and are answered with a 304 when the client
+// already has that body.
+async function toResultResponse(
+  req: NextRequest,
+  result: unknown,
+  options: {
+    mapChunk?: (chunk: unknown) => unknown;
+    cache?: CacheOptions;
+    // Declared by the handler; `response.status` takes precedence
+    status?: number;
+    transformer?: DataTransformer;
+    response?: HandlerResponse;
+    // Sees errors thrown once a stream has started
+    reportError?: (error: unknown) => void;
+  } = {}
+) {
+  if (result instanceof Response) {
+    return result;
+  }
+
+  const { cache, transformer } = options;
+  const status = options.response?.status ?? options.status ?? 200;
+  const mapChunk = (chunk: unknown) => {
+    const output = options.mapChunk ? options.mapChunk(chunk) : chunk;
+    return transformer ? transformer.serialize(output) : output;
+  };
+
+  if (isStreamSource(result)) {
+    const stream = toStreamResponse(result, {
+      format: negotiateStreamFormat(req),
+      lastEventId: readLastEventId(req),
+      mapChunk,
+      mapError: (error) => {
+        options.reportError?.(error);
+        return toApiError(error);
+      },
+    });
+    const headers = new Headers(options.response?.headers);
+    stream.headers.forEach((value, key) => headers.set(key, value));
+    if (transformer) {
+      headers.set(TRANSFORMER_HEADER, transformer.name);
+    }
+    return new Response(stream.body, { status, headers });
+  }
+
+  const headers = new Headers(options.response?.headers);
+  if (NULL_BODY_STATUSES.includes(status)) {
+    return new Response(null, { status, headers });
+  }
+
+  const body = JSON.stringify(mapChunk(result)) ?? "null";
+  if (!headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+  if (transformer) {
+    headers.set(TRANSFORMER_HEADER, transformer.name);
+  }
+  if (!READ_METHODS.includes(req.method) || status !== 200) {
+    return new Response(body, { status, headers });
+  }
+
+  const cacheHeader = cache && cacheControl(cache);
+  if (cacheHeader && !headers.has("Cache-Control")) {
+    headers.set("Cache-Control", cacheHeader);
+  }
+  const etag = headers.get("ETag") ?? (await computeEtag(body));
+  headers.set("ETag", etag);
+
+  if (matchesEtag(req.headers.get("if-none-match"), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(body, { status, headers });
+}
+
+// Run middleware in registration order, each wrapping the rest of the chain
+function runMiddleware(
+  middleware: Middleware<any, any>[],
+  context: HandlerContext<any>,
+  final: (context: any) => Promise<Response>
+): Promise<Response> {
+  const dispatch = async (index: number, ctx: any): Promise<Response> => {
+    if (index === middleware.length) {
+      return final(ctx);
+    }
+    return middleware[index](ctx, ((added?: object) =>
+      dispatch(index + 1, { ...ctx, ...added })) as NextFunction<any>);
+  };
+
+  return dispatch(0, context);
+}
+
+type BuilderState = {
+  middleware: Middleware<any, any>[];
+  // Route pattern declared with `.route()`, e.g. "/api/users/[id]"
+  route?: string;
+  // Declared with `.transformer()`; plain JSON when unset
+  transformer?: DataTransformer;
+  // Declared with `.idempotency()`
+  idempotency?: IdempotencyOptions<any>;
+  // Declared with `.cors()`
+  cors?: CorsOptions;
+  // Declared with `.observe()`
+  observability?: ObservabilityOptions;
+  // Declared with `.rateLimit()`
+  rateLimits?: RateLimitOptions<any>[];
+};
+
+// Next calls these with the request and the route's params
+type RouteHandlerFn = (
+  req: NextRequest,
+  context?: { params: Promise<any> | any }
+) => Promise<Response>;
+
+// Methods handlers can be defined for
+const HANDLER_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"] as const;
+
+// HEAD (derived from GET) and OPTIONS are answered for every route, and the
+// handler methods it lacks with a 405, unless the handlers define their own
+type DerivedMethods<THandlers> = Omit<
+  ("GET" extends keyof THandlers ? { HEAD: RouteHandlerFn } : {}) & {
+    OPTIONS: RouteHandlerFn;
+  } & Record<(typeof HANDLER_METHODS)[number], RouteHandlerFn>,
+  keyof THandlers
+>;
+
+function buildApiHandler<THandlers extends Record<string, Handler<any>>>(
+  handlers: THandlers,
+  {
+    middleware,
+    route,
+    transformer: routeTransformer,
+    idempotency,
+    cors,
+    observability,
+    rateLimits = [],
+  }: BuilderState
+): RoutesWithHandlers<THandlers, any> & DerivedMethods<THandlers> {
+  // The JSON transformer needs no header or conversion
+  const transformer =
+    routeTransformer?.name === "json" ? undefined : routeTransformer;
+
+  // Listed in Allow headers, derived methods included
+  const allowedMethods = [
+    ...new Set([
+      ...Object.keys(handlers),
+      ...("GET" in handlers ? ["HEAD"] : []),
+      "OPTIONS",
+    ]),
+  ];
+
+  // Every response of the route, errors included, carries the CORS headers
+  // for the caller's origin
+  const withCors =
+    (routeHandler: RouteHandlerFn): RouteHandlerFn =>
+    async (req, context) =>
+      withCorsHeaders(
+        await routeHandler(req, context),
+        await corsHeaders(req, cors)
+      );
+
   const createMethod = (method: keyof THandlers) => {
-    return async (req: NextRequest, context?: { params: any }) => {
+    const handle = async (
+      req: NextRequest,
+      context: { params: Promise<any> | any } | undefined,
+      observation: Observation
+    ): Promise<Response> => {
       const handlerDef = handlers[method];
 
       if (!handlerDef) {
         return Response.json(
-          { error: `Method ${String(method)} not allowed` },
-          { status: 405 }
+          new ApiError(
+            405,
+            "METHOD_NOT_ALLOWED",
+            `Method ${String(method)} not allowed`
+          ).toJSON(),
+          { status: 405, headers: { Allow: allowedMethods.join(", ") } }
         );
       }
 
-      try {
-        let rawInput: any;
-        if (method === "GET" || method === "DELETE") {
-          const url = new URL(req.url);
-          const queryParams = Object.fromEntries(url.searchParams.entries());
-          rawInput = { ...queryParams, ...context?.params };
-        } else {
-          const body = await req.json().catch(() => ({}));
-          rawInput = { ...body, ...context?.params };
-        }
+      const fail = (error: unknown, handlerResponse: HandlerResponse) => {
+        observation.error = error;
+        return toErrorResponse(error, handlerResponse);
+      };
 
-        // Check if this is a handler with schema
-        if (
-          typeof handlerDef === "object" &&
-          handlerDef !== null &&
-          "__isSchemaHandler" in handlerDef
-        ) {
-          // Validate input with Zod schema
-          const schemaHandler = handlerDef as SchemaHandler;
-          const validationResult = schemaHandler.schema.safeParse(rawInput);
-
-          if (!validationResult.success) {
-            return Response.json(
-              {
-                error: "Validation failed",
-                details: validationResult.error.issues,
-              },
-              { status: 400 }
+      const execute = async (ctx: HandlerContext<any>) => {
+        try {
+          const isSchemaHandler =
+            typeof handlerDef === "object" &&
+            handlerDef !== null &&
+            "__isSchemaHandler" in handlerDef;
+
+          const parts = isSchemaHandler
+            ? (handlerDef as SchemaHandler<any>).parts
+            : undefined;
+
+          // Input as read, split into values that keep their types and
+          // ones that arrived as strings: query strings, form fields and
+          // path params
+          const readInput = async () => {
+            if (parts) {
+              // Coerced part by part
+              const data = await readParts(req, parts, ctx.params, transformer);
+              return { data, strings: {} };
+            }
+            if (!BODY_METHODS.includes(String(method))) {
+              const url = new URL(req.url);
+              const queryParams = parseQuery(url.searchParams);
+              return { data: {}, strings: { ...queryParams, ...ctx.params } };
+            }
+            const { body, isForm } = await readBody(req, transformer);
+            return isForm
+              ? { data: {}, strings: { ...body, ...ctx.params } }
+              : { data: body, strings: ctx.params };
+          };
+
+          // Check if this is a handler with schema
+          if (isSchemaHandler) {
+            const schemaHandler = handlerDef as SchemaHandler<any>;
+            const validationResult = await observation.span(
+              "validate",
+              async (span) => {
+                const { data, strings } = await readInput();
+                // Coerce the strings to the types the schema expects
+                const rawInput = {
+                  ...data,
+                  ...(coerceQuery(strings, schemaHandler.schema) as object),
+                };
+
+                // Validate input with Zod schema
+                const result = schemaHandler.schema.safeParse(rawInput);
+                span.setAttribute("validation.success", result.success);
+                return result;
+              }
             );
-          }
 
-          const result = await schemaHandler.handler(validationResult.data, {
-            req,
-            params: context?.params,
-          });
-          return Response.json(result, { status: 200 });
-        } else {
-          // Regular handler function
-          const result = await (handlerDef as RegularHandler)(rawInput, {
-            req,
-            params: context?.params,
-          });
-          return Response.json(result, { status: 200 });
+            if (!validationResult.success) {
+              return fail(
+                new ValidationError(validationResult.error.issues),
+                ctx.response
+              );
+            }
+            observation.input = validationResult.data;
+
+            const result = await observation.span("handler", () =>
+              runCached(
+                READ_METHODS.includes(req.method)
+                  ? schemaHandler.cache
+                  : undefined,
+                [
+                  req.method,
+                  new URL(req.url).pathname,
+                  JSON.stringify(validationResult.data),
+                ],
+                async () => schemaHandler.handler(validationResult.data, ctx)
+              )
+            );
+            return toResultResponse(req, result, {
+              mapChunk: (output) => parseOutput(schemaHandler, output),
+              cache: schemaHandler.cache,
+              status: schemaHandler.status,
+              transformer,
+              response: ctx.response,
+              reportError: observation.reportError,
+            });
+          } else {
+            // Regular handler function
+            const { data, strings } = await readInput();
+            const rawInput = { ...data, ...strings };
+            const result = await observation.span("handler", async () =>
+              (handlerDef as RegularHandler<any>)(rawInput, ctx)
+            );
+            return toResultResponse(req, result, {
+              transformer,
+              response: ctx.response,
+              reportError: observation.reportError,
+            });
+          }
+        } catch (error) {
+          return fail(error, ctx.response);
         }
-      } catch (error) {
-        console.error("API Error:", error);
-        return Response.json(
+      };
+
+      const response = createHandlerResponse();
+      try {
+        const params = (await context?.params) ?? {};
+        // Limited and deduplicated after middleware, so limits can be keyed
+        // by what it adds and replays are only served to requests it lets
+        // through
+        return await runMiddleware(
+          middleware,
           {
-            error:
-              error instanceof Error ? error.message : "Internal server error",
+            req,
+            params,
+            response,
+            requestId: observation.requestId,
+            lastEventId: readLastEventId(req),
           },
-          { status: 500 }
+          (ctx) =>
+            runRateLimited(
+              rateLimits,
+              ctx,
+              {
+                scope: route ?? new URL(req.url).pathname,
+                method: String(method),
+              },
+              () => runIdempotent(ctx, idempotency, () => execute(ctx))
+            )
         );
+      } catch (error) {
+        // Middleware may throw an ApiError instead of returning a Response
+        return fail(error, response);
       }
     };
+
+    // Next 15 passes params as a Promise; awaiting also accepts plain objects
+    return (req: NextRequest, context?: { params: Promise<any> | any }) =>
+      observeRequest(req, route, observability, (observation) =>
+        handle(req, context, observation)
+      );
   };
 
-  const routes = {} as RoutesWithHandlers<THandlers>;
+  const routes = {} as RoutesWithHandlers<THandlers, any> &
+    DerivedMethods<THandlers>;
 
   // Create route handlers for each HTTP method
   Object.keys(handlers).forEach((method) => {
-    const routeHandler = createMethod(method);
+    const routeHandler = withCors(createMethod(method));
     // Attach original handler for type inference
     (routeHandler as any).__handler = handlers[method];
+    (routeHandler as any).__route = route;
+    // Errors the builder adds, for OpenAPI documents
+    (routeHandler as any).__errors = [
+      ...(rateLimits.some(
+        (limit) => !limit.methods || limit.methods.includes(method)
+      )
+        ? [TooManyRequests]
+        : []),
+      ...(idempotency && !SAFE_METHODS.includes(method)
+        ? [IdempotencyConflict, IdempotencyKeyMismatch]
+        : []),
+    ];
     (routes as any)[method] = routeHandler;
   });
 
+  // Next's own 405 for methods a route doesn't export has no Allow header
+  HANDLER_METHODS.forEach((method) => {
+    if (!(method in handlers)) {
+      const routeHandler = createMethod(method as keyof THandlers);
+      (routes as any)[method] = withCors(routeHandler);
+    }
+  });
+
+  // HEAD runs GET, middleware included, and drops the body
+  if ("GET" in handlers && !("HEAD" in handlers)) {
+    (routes as any).HEAD = async (
+      req: NextRequest,
+      context?: { params: Promise<any> | any }
+    ) => {
+      const response: Response = await (routes as any).GET(req, context);
+      await response.body?.cancel().catch(() => undefined);
+      return new Response(null, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    };
+  }
+
+  // Answered without middleware, so preflights don't need credentials
+  if (!("OPTIONS" in handlers)) {
+    (routes as any).OPTIONS = (req: NextRequest) =>
+      observeRequest(req, route, observability, () =>
+        optionsResponse(req, cors, allowedMethods)
+      );
+  }
+
   // Attach handlers for type inference
   (routes as any).__handlers = handlers;
   return routes;
 }
 
+type ApiHandlerBuilder<
+  TContext,
+  TWire extends WireFormat = "json",
+  TRouteErrors extends RouteError = never
+> = {
+  <THandlers extends Record<string, Handler<TContext>>>(
+    handlers: THandlers
+  ): RoutesWithHandlers<THandlers, TWire, TRouteErrors> &
+    DerivedMethods<THandlers>;
+  // Add middleware; its context fields are typed in the handlers that follow
+  use<TAdded extends object>(
+    middleware: Middleware<TAdded, TContext>
+  ): ApiHandlerBuilder<TContext & TAdded, TWire, TRouteErrors>;
+  // Declare the route's path to type `params` from its dynamic segments
+  route<TPath extends string>(
+    path: TPath
+  ): ApiHandlerBuilder<
+    Omit<TContext, "params"> & { params: PathParams<TPath> },
+    TWire,
+    TRouteErrors
+  >;
+  // Serialize outputs (and read bodies) with a transformer, e.g. to send
+  // Dates, BigInts, Maps and Sets as themselves
+  transformer<TTransformer extends DataTransformer>(
+    transformer: TTransformer
+  ): ApiHandlerBuilder<TContext, TTransformer["wire"], TRouteErrors>;
+  // Run requests carrying an Idempotency-Key once, replaying the response
+  // to repeats of the key
+  idempotency(
+    options?: IdempotencyOptions<TContext>
+  ): ApiHandlerBuilder<
+    TContext,
+    TWire,
+    TRouteErrors | { method: UnsafeMethod; error: IdempotencyError }
+  >;
+  // Answer cross-origin requests and preflights from the allowed origins
+  cors(options: CorsOptions): ApiHandlerBuilder<TContext, TWire, TRouteErrors>;
+  // Report requests to logging and metrics hooks and trace them
+  observe(
+    options: ObservabilityOptions
+  ): ApiHandlerBuilder<TContext, TWire, TRouteErrors>;
+  // Answer requests over the limit with a 429; each call adds a limit
+  rateLimit<TMethod extends string = string>(
+    options: RateLimitOptions<TContext> & { methods?: TMethod[] }
+  ): ApiHandlerBuilder<
+    TContext,
+    TWire,
+    TRouteErrors | { method: TMethod; error: TooManyRequestsError }
+  >;
+};
+
+function createBuilder<
+  TContext,
+  TWire extends WireFormat = "json",
+  TRouteErrors extends RouteError = never
+>(state: BuilderState): ApiHandlerBuilder<TContext, TWire, TRouteErrors> {
+  const builder = <THandlers extends Record<string, Handler<TContext>>>(
+    handlers: THandlers
+  ) => buildApiHandler(handlers, state);
+
+  return Object.assign(builder, {
+    use: <TAdded extends object>(next: Middleware<TAdded, TContext>) =>
+      createBuilder<TContext & TAdded, TWire, TRouteErrors>({
+        ...state,
+        middleware: [...state.middleware, next],
+      }),
+    route: <TPath extends string>(path: TPath) =>
+      createBuilder<
+        Omit<TContext, "params"> & { params: PathParams<TPath> },
+        TWire,
+        TRouteErrors
+      >({
+        ...state,
+        route: path,
+      }),
+    transformer: <TTransformer extends DataTransformer>(
+      transformer: TTransformer
+    ) =>
+      createBuilder<TContext, TTransformer["wire"], TRouteErrors>({
+        ...state,
+        transformer,
+      }),
+    idempotency: (idempotency: IdempotencyOptions<TContext> = {}) =>
+      createBuilder<
+        TContext,
+        TWire,
+        TRouteErrors | { method: UnsafeMethod; error: IdempotencyError }
+      >({ ...state, idempotency }),
+    cors: (cors: CorsOptions) => {
+      assertCorsOptions(cors);
+      return createBuilder<TContext, TWire, TRouteErrors>({ ...state, cors });
+    },
+    observe: (observability: ObservabilityOptions) =>
+      createBuilder<TContext, TWire, TRouteErrors>({ ...state, observability }),
+    rateLimit: <TMethod extends string = string>(
+      options: RateLimitOptions<TContext> & { methods?: TMethod[] }
+    ) =>
+      createBuilder<
+        TContext,
+        TWire,
+        TRouteErrors | { method: TMethod; error: TooManyRequestsError }
+      >({
+        ...state,
+        rateLimits: [...(state.rateLimits ?? []), options],
+      }),
+  });
+}
+
+export const createApiHandler = createBuilder<HandlerContext>({
+  middleware: [],
+});
+
 // Type utilities for extracting handler types from route modules
 export type ExtractHandlers<T> = {
-  [K in keyof T]: T[K] extends { __handler: infer H } ? H : never;
+  [K in keyof T as T[K] extends { __handler: any }
+    ? K
+    : never]: T[K] extends { __handler: infer H } ? H : never;
 };
 
 export type InferInput<T> = T extends { __handler: infer Handler }
@@ -142,17 +1149,45 @@ export type InferInput<T> = T extends { __handler: infer Handler }
 
 type InferHandlerInput<Handler> = Handler extends { schema: infer Schema }
   ? Schema extends z.ZodSchema
-    ? z.infer<Schema>
+    ? z.input<Schema>
     : never
   : Handler extends (input: infer I, context: any) => any
   ? I
   : never;
 
 export type InferOutput<T> = T extends { __handler: infer Handler }
-  ? InferHandlerOutput<Handler>
-  : InferHandlerOutput<T>;
+  ? ToWire<ResponseBody<InferHandlerOutput<Handler>>, HandlerWire<Handler>>
+  : ToWire<ResponseBody<InferHandlerOutput<T>>, HandlerWire<T>>;
 
-type InferHandlerOutput<Handler> = Handler extends { handler: infer HandlerFn }
+// A returned Response is sent as is, so it says nothing about the body
+type ResponseBody<TOutput> = [Exclude<TOutput, Response>] extends [never]
+  ? unknown
+  : Exclude<TOutput, Response>;
+
+// Bare handler definitions (e.g. for Server Actions) never cross the wire
+type HandlerWire<Handler> = Handler extends {
+  __wire?: infer TWire extends WireFormat;
+}
+  ? TWire
+  : "rich";
+
+// The output as the client receives it, per chunk for streams
+type ToWire<TOutput, TWire extends WireFormat> = TOutput extends StreamSource<
+  infer TChunk
+>
+  ? AsyncIterable<WireValue<TChunk, TWire>>
+  : WireValue<TOutput, TWire>;
+
+// A declared output schema wins over whatever the handler happens to return;
+// for streaming handlers it describes each chunk
+type InferHandlerOutput<Handler> = Handler extends {
+  outputSchema: infer OutputSchema extends z.ZodSchema;
+  handler: (...args: any[]) => infer Result;
+}
+  ? Awaited<Result> extends StreamSource<any>
+    ? AsyncIterable<z.output<OutputSchema>>
+    : z.output<OutputSchema>
+  : Handler extends { handler: infer HandlerFn }
   ? HandlerFn extends (...args: any[]) => Promise<infer O>
     ? O
     : HandlerFn extends (...args: any[]) => infer O
@@ -163,3 +1198,22 @@ type InferHandlerOutput<Handler> = Handler extends { handler: infer HandlerFn }
   : Handler extends (...args: any[]) => infer O
   ? O
   : never;
+
+// Chunk type of a streaming handler, inferred from the generator's yields
+export type InferChunk<T> = StreamChunk<InferOutput<T>>;
+
+export type InferError<T> = T extends { __handler: infer Handler }
+  ? InferHandlerError<Handler>
+  : InferHandlerError<T>;
+
+// Discriminated (by `code`) union of every error a handler can produce
+type InferHandlerError<Handler> =
+  | (Handler extends { errors: readonly (infer E)[] }
+      ? InferErrorDefinition<E>
+      : never)
+  | (Handler extends { __isSchemaHandler: true } ? ValidationError : never)
+  | (Handler extends { __routeErrors?: [infer E] } ? E : never)
+  | InvalidBodyError
+  | InternalServerError
+  | MethodNotAllowedError
+  | UnknownApiError;
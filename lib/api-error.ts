@@ -0,0 +1,174 @@
+import { z } from "zod";
+
+// Error thrown by handlers (and rethrown by the client) with an HTTP status,
+// a machine-readable code and an optional typed payload
+export class ApiError<TCode extends string = string, TData = unknown> extends Error {
+  readonly status: number;
+  readonly code: TCode;
+  readonly data: TData;
+  // Set on the client from the response's X-Request-Id, to quote in bug
+  // reports and find the request in server logs
+  requestId?: string;
+
+  constructor(status: number, code: TCode, message?: string, data?: TData) {
+    super(message ?? code);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.data = data as TData;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { error: this.message, code: this.code, data: this.data };
+  }
+}
+
+// Thrown for the 400 response emitted when a `withSchema` input fails to parse
+export class ValidationError extends ApiError<
+  "VALIDATION_ERROR",
+  z.core.$ZodIssue[]
+> {
+  constructor(issues: z.core.$ZodIssue[], message = "Validation failed") {
+    super(400, "VALIDATION_ERROR", message, issues);
+    this.name = "ValidationError";
+  }
+
+  get issues() {
+    return this.data;
+  }
+
+  // Messages by dotted field path, e.g. { "address.city": ["Required"] }
+  get fieldErrors() {
+    return toFieldErrors(this.data);
+  }
+
+  // Keep the `details` key the 400 response has always used
+  toJSON(): Record<string, unknown> {
+    return { error: this.message, code: this.code, details: this.data };
+  }
+}
+
+// Group issues by field for forms; issues about the whole input have no
+// path and are left out
+export function toFieldErrors(issues: z.core.$ZodIssue[]) {
+  const fieldErrors: Record<string, string[]> = {};
+  for (const issue of issues) {
+    if (issue.path.length === 0) continue;
+    const key = issue.path.map(String).join(".");
+    (fieldErrors[key] ??= []).push(issue.message);
+  }
+  return fieldErrors;
+}
+
+export type ErrorDefinition<
+  TCode extends string = string,
+  TData = unknown
+> = {
+  (
+    ...args: undefined extends TData
+      ? [data?: TData, message?: string]
+      : [data: TData, message?: string]
+  ): ApiError<TCode, TData>;
+  status: number;
+  code: TCode;
+  dataSchema?: z.ZodType<TData>;
+};
+
+// Helper function to declare an error a handler may throw, e.g.
+// const NotFound = defineError(404, "NOT_FOUND");
+// const EmailTaken = defineError(409, "EMAIL_TAKEN", z.object({ email: z.string() }));
+export function defineError<
+  TCode extends string,
+  TSchema extends z.ZodType | undefined = undefined
+>(
+  status: number,
+  code: TCode,
+  dataSchema?: TSchema,
+  defaultMessage?: string
+): ErrorDefinition<
+  TCode,
+  TSchema extends z.ZodType ? z.output<TSchema> : undefined
+> {
+  const create = (data?: unknown, message?: string) =>
+    new ApiError(status, code, message ?? defaultMessage, data);
+
+  return Object.assign(create, { status, code, dataSchema }) as any;
+}
+
+// Common errors, ready to be declared on handlers
+export const BadRequest = defineError(400, "BAD_REQUEST", undefined, "Bad request");
+export const Unauthorized = defineError(401, "UNAUTHORIZED", undefined, "Unauthorized");
+export const Forbidden = defineError(403, "FORBIDDEN", undefined, "Forbidden");
+export const NotFound = defineError(404, "NOT_FOUND", undefined, "Not found");
+export const Conflict = defineError(409, "CONFLICT", undefined, "Conflict");
+export const TooManyRequests = defineError(
+  429,
+  "TOO_MANY_REQUESTS",
+  // Seconds until the caller may try again, also sent as Retry-After
+  z.object({ retryAfter: z.number() }),
+  "Too many requests"
+);
+// Sent by routes with `.idempotency()`: a request reusing a key while the
+// first one with it is still running, or with a different body
+export const IdempotencyConflict = defineError(
+  409,
+  "IDEMPOTENCY_CONFLICT",
+  undefined,
+  "A request with this Idempotency-Key is still being processed"
+);
+export const IdempotencyKeyMismatch = defineError(
+  422,
+  "IDEMPOTENCY_KEY_MISMATCH",
+  undefined,
+  "This Idempotency-Key was used with a different request body"
+);
+
+// Errors every route can produce regardless of what the handler declares
+export type InvalidBodyError = ApiError<"INVALID_BODY", undefined>;
+export type InternalServerError = ApiError<"INTERNAL_SERVER_ERROR", undefined>;
+export type MethodNotAllowedError = ApiError<"METHOD_NOT_ALLOWED", undefined>;
+export type UnknownApiError = ApiError<"UNKNOWN_ERROR", unknown>;
+// Sent by routes with `.rateLimit()`
+export type TooManyRequestsError = ApiError<
+  "TOO_MANY_REQUESTS",
+  { retryAfter: number }
+>;
+
+// Sent by routes with `.idempotency()`
+export type IdempotencyError =
+  | ApiError<"IDEMPOTENCY_CONFLICT", undefined>
+  | ApiError<"IDEMPOTENCY_KEY_MISMATCH", undefined>;
+
+export type InferErrorDefinition<T> = T extends ErrorDefinition<
+  infer TCode,
+  infer TData
+>
+  ? ApiError<TCode, TData>
+  : never;
+
+// Rebuild a typed error from a failed response body on the client
+export function errorFromResponse(
+  status: number,
+  body: any,
+  requestId?: string | null
+): ApiError {
+  const error = toTypedError(status, body);
+  if (requestId) error.requestId = requestId;
+  return error;
+}
+
+function toTypedError(status: number, body: any): ApiError {
+  if (body && typeof body === "object" && typeof body.code === "string") {
+    if (body.code === "VALIDATION_ERROR") {
+      return new ValidationError(body.details ?? [], body.error);
+    }
+    return new ApiError(status, body.code, body.error, body.data);
+  }
+
+  return new ApiError(
+    status,
+    "UNKNOWN_ERROR",
+    body && typeof body.error === "string" ? body.error : "Request failed",
+    body
+  );
+}
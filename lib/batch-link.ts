@@ -0,0 +1,107 @@
+import { errorFromResponse } from "./api-error";
+import { fetcher } from "./request";
+import type { RequestPolicy } from "./retry";
+import { findTransformer, type DataTransformer } from "./transformer";
+
+export type BatchCall = {
+  route: string;
+  method: string;
+  input?: unknown;
+};
+
+// One entry per call, in the order the calls were sent
+export type BatchResult =
+  // `transformer` names how `data` was serialized by the call's route
+  | { status: number; data: unknown; transformer?: string }
+  | { status: number; error: Record<string, unknown>; requestId?: string };
+
+export type BatchLinkOptions = RequestPolicy & {
+  // URL of the route created with createBatchRoute, e.g. "/api/batch"
+  url: string;
+  // Calls per batch request; larger queues are split (default 25)
+  maxBatchSize?: number;
+  fetch?: typeof fetch;
+  // Decodes results serialized with a custom transformer
+  transformer?: DataTransformer;
+};
+
+type PendingCall = BatchCall & {
+  resolve: (data: unknown) => void;
+  reject: (error: unknown) => void;
+};
+
+// Coalesce calls made in the same tick into a single batch request and fan
+// the results back out to each caller
+export function createBatchLink(options: BatchLinkOptions) {
+  const maxBatchSize = options.maxBatchSize ?? 25;
+  let queue: PendingCall[] = [];
+  // Batches only carry queries, so they're as safe to retry as a GET
+  const retry =
+    typeof options.retry === "number"
+      ? { retries: options.retry, methods: ["POST"] }
+      : options.retry && { ...options.retry, methods: ["POST"] };
+
+  const send = async (calls: PendingCall[]) => {
+    try {
+      const { results } = (await fetcher(
+        options.url,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            calls: calls.map(({ route, method, input }) => ({
+              route,
+              method,
+              input,
+            })),
+          }),
+          timeout: options.timeout,
+          retry,
+        },
+        options.fetch
+      )) as { results: BatchResult[] };
+
+      calls.forEach((call, index) => {
+        const result = results[index];
+        if (!result) {
+          call.reject(new Error(`Batch response is missing call ${index}`));
+        } else if ("error" in result) {
+          call.reject(
+            errorFromResponse(result.status, result.error, result.requestId)
+          );
+        } else {
+          const transformer = findTransformer(
+            result.transformer ?? null,
+            options.transformer
+          );
+          call.resolve(
+            transformer ? transformer.deserialize(result.data) : result.data
+          );
+        }
+      });
+    } catch (error) {
+      // The batch request itself failed, so every call in it did
+      calls.forEach((call) => call.reject(error));
+    }
+  };
+
+  const flush = () => {
+    const calls = queue;
+    queue = [];
+    for (let i = 0; i < calls.length; i += maxBatchSize) {
+      send(calls.slice(i, i + maxBatchSize));
+    }
+  };
+
+  return {
+    call: (route: string, method: string, input?: unknown) =>
+      new Promise<unknown>((resolve, reject) => {
+        if (queue.length === 0) {
+          // Hooks mounting in one render fire their fetches before this runs
+          setTimeout(flush, 0);
+        }
+        queue.push({ route, method, input, resolve, reject });
+      }),
+  };
+}
+
+export type BatchLink = ReturnType<typeof createBatchLink>;
@@ -0,0 +1,176 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createApiHandler, withSchema } from "./api-builder";
+import { ApiError, defineError } from "./api-error";
+import { createBatchRoute } from "./batch";
+import { createBatchLink, type BatchCall } from "./batch-link";
+import type { RouteHandlerFn } from "./server-caller";
+
+const UserNotFound = defineError(404, "USER_NOT_FOUND", undefined, "No user");
+
+const routes = {
+  "/api/users/[id]": createApiHandler.route("/api/users/[id]")({
+    GET: withSchema(
+      z.object({ id: z.string() }),
+      async ({ id }) => {
+        if (id === "missing") throw UserNotFound();
+        return { id, name: "John" };
+      },
+      { errors: [UserNotFound] }
+    ),
+  }),
+  "/api/users": createApiHandler({
+    POST: withSchema(z.object({ name: z.string() }), async ({ name }) => ({
+      id: "2",
+      name,
+    })),
+  }),
+  "/api/batch": () => Promise.resolve(batchRoute),
+};
+const batchRoute = createBatchRoute(routes);
+
+// Fetch answered by the batch route, recording the calls of each request
+function batchFetch() {
+  const batches: BatchCall[][] = [];
+  const fetchImpl = async (url: string, init?: RequestInit) => {
+    const req = new NextRequest(new Request(`http://localhost${url}`, init));
+    batches.push((await req.clone().json()).calls);
+    return (batchRoute.POST as unknown as RouteHandlerFn)(req, {
+      params: Promise.resolve({}),
+    });
+  };
+  return { fetch: fetchImpl as typeof fetch, batches };
+}
+
+async function sendBatch(calls: BatchCall[]) {
+  const res = await batchFetch().fetch("/api/batch", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ calls }),
+  });
+  return (await res.json()).results;
+}
+
+describe("batch route", () => {
+  it("dispatches each call to its route and method", async () => {
+    const results = await sendBatch([
+      { route: "/api/users/[id]", method: "GET", input: { id: "1" } },
+      { route: "/api/users", method: "POST", input: { name: "Jane" } },
+    ]);
+
+    assert.deepEqual(results, [
+      { status: 200, data: { id: "1", name: "John" } },
+      { status: 200, data: { id: "2", name: "Jane" } },
+    ]);
+  });
+
+  it("answers each failed call with its own error", async () => {
+    const [missing, invalid, unknownRoute, unknownMethod] = await sendBatch([
+      { route: "/api/users/[id]", method: "GET", input: { id: "missing" } },
+      { route: "/api/users", method: "POST", input: {} },
+      { route: "/api/posts", method: "GET" },
+      { route: "/api/users", method: "DELETE" },
+    ]);
+
+    assert.equal(missing.status, 404);
+    assert.equal(missing.error.code, "USER_NOT_FOUND");
+    assert.ok(missing.requestId);
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.error.code, "VALIDATION_ERROR");
+    assert.equal(unknownRoute.status, 404);
+    assert.equal(unknownMethod.status, 405);
+  });
+
+  it("doesn't dispatch to itself", async () => {
+    const [result] = await sendBatch([
+      { route: "/api/batch", method: "POST", input: { calls: [] } },
+    ]);
+
+    assert.equal(result.status, 405);
+    assert.equal(result.error.code, "METHOD_NOT_ALLOWED");
+  });
+});
+
+describe("batch link", () => {
+  it("sends the calls made in one tick as one request", async () => {
+    const { fetch, batches } = batchFetch();
+    const link = createBatchLink({ url: "/api/batch", fetch });
+
+    const results = await Promise.all([
+      link.call("/api/users/[id]", "GET", { id: "1" }),
+      link.call("/api/users/[id]", "GET", { id: "2" }),
+    ]);
+
+    assert.equal(batches.length, 1);
+    assert.deepEqual(results, [
+      { id: "1", name: "John" },
+      { id: "2", name: "John" },
+    ]);
+  });
+
+  it("splits calls over maxBatchSize into several requests", async () => {
+    const { fetch, batches } = batchFetch();
+    const link = createBatchLink({ url: "/api/batch", fetch, maxBatchSize: 2 });
+
+    await Promise.all(
+      ["1", "2", "3"].map((id) => link.call("/api/users/[id]", "GET", { id }))
+    );
+
+    assert.deepEqual(batches.map((calls) => calls.length), [2, 1]);
+  });
+
+  it("rejects only the calls that failed", async () => {
+    const { fetch } = batchFetch();
+    const link = createBatchLink({ url: "/api/batch", fetch });
+
+    const [found, missing] = await Promise.allSettled([
+      link.call("/api/users/[id]", "GET", { id: "1" }),
+      link.call("/api/users/[id]", "GET", { id: "missing" }),
+    ]);
+
+    assert.equal(found.status, "fulfilled");
+    assert.equal(missing.status, "rejected");
+    const error = (missing as PromiseRejectedResult).reason;
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.code, "USER_NOT_FOUND");
+  });
+
+  it("retries a failed batch request", async () => {
+    const { fetch, batches } = batchFetch();
+    let attempts = 0;
+    const flaky = (async (url: string, init?: RequestInit) =>
+      ++attempts === 1
+        ? new Response(null, { status: 503 })
+        : fetch(url, init)) as typeof fetch;
+    const link = createBatchLink({
+      url: "/api/batch",
+      fetch: flaky,
+      retry: { retries: 1, delay: 0 },
+    });
+
+    const user = await link.call("/api/users/[id]", "GET", { id: "1" });
+
+    assert.equal(attempts, 2);
+    assert.equal(batches.length, 1);
+    assert.deepEqual(user, { id: "1", name: "John" });
+  });
+
+  it("rejects every call when the batch request fails", async () => {
+    const link = createBatchLink({
+      url: "/api/batch",
+      fetch: async () => new Response(null, { status: 502 }),
+    });
+
+    const results = await Promise.allSettled([
+      link.call("/api/users/[id]", "GET", { id: "1" }),
+      link.call("/api/users/[id]", "GET", { id: "2" }),
+    ]);
+
+    assert.deepEqual(
+      results.map((result) => result.status),
+      ["rejected", "rejected"]
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { createApiHandler, withSchema } from "./api-builder";
+import { ApiError } from "./api-error";
+import type { BatchResult } from "./batch-link";
+import { REQUEST_ID_HEADER } from "./observability";
+import { parseJson } from "./query";
+import {
+  dispatchRoute,
+  loadRouteModule,
+  type RouteHandlerFn,
+  type RouteModuleSource,
+} from "./server-caller";
+import { TRANSFORMER_HEADER } from "./transformer";
+
+export type BatchRouteOptions = {
+  // Calls accepted per batch request (default 25)
+  maxCalls?: number;
+};
+
+// Marks the batch handler so batches can't dispatch to themselves
+const BATCH_HANDLER = Symbol("batchHandler");
+
+function errorResult(error: ApiError): BatchResult {
+  return { status: error.status, error: error.toJSON() };
+}
+
+// Route handlers dispatching several { route, method, input } calls through
+// the registered handlers, e.g. from src/app/api/batch/route.ts
+export function createBatchRoute(
+  routes: Record<string, RouteModuleSource>,
+  options: BatchRouteOptions = {}
+) {
+  const BatchSchema = z.object({
+    calls: z
+      .array(
+        z.object({
+          route: z.string(),
+          method: z.string(),
+          input: z.unknown().optional(),
+        })
+      )
+      .max(options.maxCalls ?? 25),
+  });
+
+  const dispatch = async (
+    call: z.infer<typeof BatchSchema>["calls"][number],
+    headers: Headers
+  ): Promise<BatchResult> => {
+    const source = Object.hasOwn(routes, call.route)
+      ? routes[call.route]
+      : undefined;
+    if (!source) {
+      return errorResult(
+        new ApiError(404, "NOT_FOUND", `Route ${call.route} not found`)
+      );
+    }
+
+    const routeModule = await loadRouteModule(source);
+    const routeHandler = routeModule[call.method] as RouteHandlerFn | undefined;
+    if (
+      typeof routeHandler !== "function" ||
+      !("__handler" in routeHandler) ||
+      BATCH_HANDLER in routeHandler
+    ) {
+      return errorResult(
+        new ApiError(
+          405,
+          "METHOD_NOT_ALLOWED",
+          `Method ${call.method} not allowed`
+        )
+      );
+    }
+
+    const res = await dispatchRoute(routeHandler, call.method, call.input, {
+      path: call.route,
+      headers,
+    });
+    // Statuses like 204 have no body, which leaves `data` out
+    const text = await res.text();
+    const body = text
+      ? parseJson(text, { error: "Invalid response" })
+      : undefined;
+    const transformer = res.headers.get(TRANSFORMER_HEADER) ?? undefined;
+    return res.ok
+      ? { status: res.status, data: body, transformer }
+      : {
+          status: res.status,
+          error: body,
+          requestId: res.headers.get(REQUEST_ID_HEADER) ?? undefined,
+        };
+  };
+
+  const routeHandlers = createApiHandler({
+    POST: withSchema(BatchSchema, async ({ calls }, { req }) => {
+      // Calls see the batch request's headers, e.g. for auth middleware;
+      // the length describes the batch body, not theirs
+      const headers = new Headers(req.headers);
+      headers.delete("content-length");
+
+      const results = await Promise.all(
+        calls.map((call) =>
+          dispatch(call, headers).catch(() =>
+            errorResult(
+              new ApiError(500, "INTERNAL_SERVER_ERROR", "Batch call failed")
+            )
+          )
+        )
+      );
+      return { results };
+    }),
+  });
+
+  Object.assign(routeHandlers.POST, { [BATCH_HANDLER]: true });
+  return routeHandlers;
+}
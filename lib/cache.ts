@@ -0,0 +1,72 @@
+import { unstable_cache } from "next/cache";
+
+export type CacheOptions = {
+  // Seconds clients and CDNs may reuse the response
+  maxAge?: number;
+  // Seconds a stale response may be served while it's refetched
+  staleWhileRevalidate?: number;
+  // Only the requesting browser may store it, e.g. per-user data
+  private?: boolean;
+  // Next data cache: cache the handler result under these tags, to be
+  // cleared with revalidateTag()
+  tags?: string[];
+  // Next data cache lifetime in seconds, or false to keep until revalidated
+  revalidate?: number | false;
+};
+
+export function cacheControl(options: CacheOptions) {
+  const { maxAge, staleWhileRevalidate } = options;
+  if (maxAge === undefined && staleWhileRevalidate === undefined) {
+    return options.private ? "private, no-cache" : undefined;
+  }
+
+  return [
+    options.private ? "private" : "public",
+    `max-age=${maxAge ?? 0}`,
+    staleWhileRevalidate !== undefined &&
+      `stale-while-revalidate=${staleWhileRevalidate}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+// Weak ETag from the serialized body: equal JSON, equal tag
+export async function computeEtag(body: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-1",
+    new TextEncoder().encode(body)
+  );
+  const hash = Array.from(new Uint8Array(digest).slice(0, 12), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+  return `W/"${hash}"`;
+}
+
+export function matchesEtag(ifNoneMatch: string | null, etag: string) {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === "*") return true;
+  // Weak comparison: W/ prefixes are ignored
+  const strip = (tag: string) => tag.trim().replace(/^W\//, "");
+  return ifNoneMatch.split(",").some((tag) => strip(tag) === strip(etag));
+}
+
+// Run a handler through Next's data cache when tags or revalidate are set.
+// Outside a Next server (scripts, tests) there is no data cache to use.
+export function runCached<T>(
+  options: CacheOptions | undefined,
+  keyParts: string[],
+  run: () => Promise<T>
+): Promise<T> {
+  if (
+    !options ||
+    (!options.tags?.length && options.revalidate === undefined) ||
+    !process.env.NEXT_RUNTIME
+  ) {
+    return run();
+  }
+
+  return unstable_cache(run, keyParts, {
+    tags: options.tags,
+    revalidate: options.revalidate,
+  })();
+}
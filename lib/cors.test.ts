@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { NextRequest } from "next/server";
+import { createApiHandler } from "./api-builder";
+import type { CorsOptions } from "./cors";
+import type { RouteHandlerFn } from "./server-caller";
+
+function send(
+  routeHandler: unknown,
+  method: string,
+  headers: Record<string, string> = {}
+) {
+  return (routeHandler as RouteHandlerFn)(
+    new NextRequest("http://localhost/api/users", { method, headers }),
+    { params: Promise.resolve({}) }
+  );
+}
+
+function usersRoute(cors: CorsOptions) {
+  return createApiHandler.cors(cors)({
+    GET: async () => ({ users: [] }),
+    POST: async () => ({ ok: true }),
+  });
+}
+
+const partner = "https://app.partner.com";
+
+describe("CORS", () => {
+  it("echoes an allowed origin", async () => {
+    const { GET } = usersRoute({
+      origin: [partner],
+      credentials: true,
+      exposedHeaders: ["Location"],
+    });
+
+    const res = await send(GET, "GET", { Origin: partner });
+
+    assert.equal(res.headers.get("Access-Control-Allow-Origin"), partner);
+    assert.equal(res.headers.get("Access-Control-Allow-Credentials"), "true");
+    assert.equal(
+      res.headers.get("Access-Control-Expose-Headers"),
+      "Location, X-Request-Id"
+    );
+    assert.equal(res.headers.get("Vary"), "Origin");
+  });
+
+  it("sends other origins no Access-Control headers", async () => {
+    const { GET } = usersRoute({ origin: (origin) => origin === partner });
+
+    const res = await send(GET, "GET", { Origin: "https://evil.example" });
+
+    assert.equal(res.headers.get("Access-Control-Allow-Origin"), null);
+    assert.equal(res.headers.get("Vary"), "Origin");
+  });
+
+  it("varies by origin for requests without one", async () => {
+    const { GET } = usersRoute({ origin: /^https:\/\/.+\.partner\.com$/ });
+
+    const res = await send(GET, "GET");
+
+    assert.equal(res.headers.get("Vary"), "Origin");
+  });
+
+  it("allows any origin with * and doesn't vary", async () => {
+    const { GET } = usersRoute({ origin: "*" });
+
+    const res = await send(GET, "GET", { Origin: partner });
+
+    assert.equal(res.headers.get("Access-Control-Allow-Origin"), "*");
+    assert.equal(res.headers.get("Vary"), null);
+  });
+
+  it("refuses credentials for any origin", () => {
+    assert.throws(
+      () => createApiHandler.cors({ origin: "*", credentials: true }),
+      /credentials/
+    );
+  });
+
+  it("answers a preflight from an allowed origin", async () => {
+    const { OPTIONS } = usersRoute({ origin: [partner], maxAge: 600 });
+
+    const res = await send(OPTIONS, "OPTIONS", {
+      Origin: partner,
+      "Access-Control-Request-Method": "POST",
+      "Access-Control-Request-Headers": "content-type",
+    });
+
+    assert.equal(res.status, 204);
+    assert.equal(res.headers.get("Access-Control-Allow-Origin"), partner);
+    assert.equal(
+      res.headers.get("Access-Control-Allow-Methods"),
+      "GET, POST, HEAD, OPTIONS"
+    );
+    assert.equal(
+      res.headers.get("Access-Control-Allow-Headers"),
+      "content-type"
+    );
+    assert.equal(res.headers.get("Access-Control-Max-Age"), "600");
+    assert.equal(
+      res.headers.get("Vary"),
+      "Origin, Access-Control-Request-Headers"
+    );
+  });
+
+  it("answers a preflight from another origin without allowing it", async () => {
+    const { OPTIONS } = usersRoute({ origin: [partner] });
+
+    const res = await send(OPTIONS, "OPTIONS", {
+      Origin: "https://evil.example",
+      "Access-Control-Request-Method": "POST",
+    });
+
+    assert.equal(res.status, 204);
+    assert.equal(res.headers.get("Access-Control-Allow-Origin"), null);
+    assert.equal(res.headers.get("Access-Control-Allow-Methods"), null);
+  });
+});
@@ -0,0 +1,127 @@
+import { REQUEST_ID_HEADER } from "./observability";
+
+export type CorsOptions = {
+  // Origins allowed to call the route: "*", one origin, a list, a pattern
+  // or a function deciding per request, e.g. from a partner table
+  origin:
+    | "*"
+    | string
+    | RegExp
+    | (string | RegExp)[]
+    | ((origin: string) => boolean | Promise<boolean>);
+  // Let browsers send cookies and Authorization headers. Needs the origins
+  // listed: with "*", any site could make credentialed calls.
+  credentials?: boolean;
+  // Request headers callers may send; defaults to the ones a preflight asks
+  // for. X-Request-Id is always allowed.
+  allowedHeaders?: string[];
+  // Response headers scripts may read besides the basic ones and
+  // X-Request-Id, e.g. Location
+  exposedHeaders?: string[];
+  // Seconds browsers may cache a preflight response
+  maxAge?: number;
+};
+
+async function isAllowedOrigin(options: CorsOptions, origin: string) {
+  const allowed = options.origin;
+  if (allowed === "*") return true;
+  if (typeof allowed === "function") return allowed(origin);
+
+  return (Array.isArray(allowed) ? allowed : [allowed]).some((entry) =>
+    typeof entry === "string" ? entry === origin : entry.test(origin)
+  );
+}
+
+// Checked when a builder is configured, so a bad policy fails at startup
+export function assertCorsOptions(options: CorsOptions) {
+  if (options.origin === "*" && options.credentials) {
+    throw new Error(
+      'CORS with credentials needs the allowed origins listed, not "*"'
+    );
+  }
+}
+
+// Access-Control headers for a request from an allowed origin; only Vary
+// for same-origin requests and origins that aren't allowed
+export async function corsHeaders(
+  req: Request,
+  options: CorsOptions | undefined
+): Promise<Headers> {
+  const headers = new Headers();
+  if (!options) return headers;
+  if (options.origin !== "*") {
+    // Allowed origins are echoed, so caches must keep the responses to each
+    // origin apart, including the ones to requests without an origin
+    headers.set("Vary", "Origin");
+  }
+
+  const origin = req.headers.get("origin");
+  if (!origin || !(await isAllowedOrigin(options, origin))) return headers;
+
+  headers.set(
+    "Access-Control-Allow-Origin",
+    options.origin === "*" ? "*" : origin
+  );
+  if (options.credentials) {
+    headers.set("Access-Control-Allow-Credentials", "true");
+  }
+  headers.set(
+    "Access-Control-Expose-Headers",
+    [...(options.exposedHeaders ?? []), REQUEST_ID_HEADER].join(", ")
+  );
+  return headers;
+}
+
+export function isPreflight(req: Request) {
+  return (
+    req.method === "OPTIONS" &&
+    req.headers.has("origin") &&
+    req.headers.has("access-control-request-method")
+  );
+}
+
+// Answer to an OPTIONS request: the route's methods in Allow, plus what a
+// cross-origin caller may send when it's a preflight
+export async function optionsResponse(
+  req: Request,
+  options: CorsOptions | undefined,
+  methods: string[]
+) {
+  const headers = await corsHeaders(req, options);
+  headers.set("Allow", methods.join(", "));
+
+  if (isPreflight(req) && headers.has("Access-Control-Allow-Origin")) {
+    headers.set("Access-Control-Allow-Methods", methods.join(", "));
+    const requested = req.headers.get("access-control-request-headers");
+    const allowedHeaders = options?.allowedHeaders
+      ? [...options.allowedHeaders, REQUEST_ID_HEADER].join(", ")
+      : requested;
+    if (allowedHeaders) {
+      headers.set("Access-Control-Allow-Headers", allowedHeaders);
+    }
+    if (options?.maxAge !== undefined) {
+      headers.set("Access-Control-Max-Age", String(options.maxAge));
+    }
+    if (!options?.allowedHeaders && requested) {
+      headers.append("Vary", "Access-Control-Request-Headers");
+    }
+  }
+  return new Response(null, { status: 204, headers });
+}
+
+// A copy of `response` with the CORS headers added; the original's headers
+// may be immutable, e.g. when it came from fetch()
+export function withCorsHeaders(response: Response, cors: Headers) {
+  if ([...cors.keys()].length === 0) return response;
+
+  const headers = new Headers(response.headers);
+  cors.forEach((value, key) => {
+    if (key === "vary") headers.append(key, value);
+    else headers.set(key, value);
+  });
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
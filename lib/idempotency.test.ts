@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { NextRequest } from "next/server";
+import { createApiHandler } from "./api-builder";
+import { createMemoryIdempotencyStore } from "./idempotency";
+import { fetchWithPolicy } from "./retry";
+import type { RouteHandlerFn } from "./server-caller";
+
+function post(
+  routeHandler: unknown,
+  body: unknown,
+  headers: Record<string, string> = {}
+) {
+  return (routeHandler as RouteHandlerFn)(
+    new NextRequest("http://localhost/api/orders", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({}) }
+  );
+}
+
+// Counts the orders it creates; each test gets its own store
+function orderRoute(handle?: () => Promise<void>) {
+  let created = 0;
+  const { POST } = createApiHandler.idempotency({
+    store: createMemoryIdempotencyStore(),
+  })({
+    POST: async (_req, { response }) => {
+      await handle?.();
+      response.headers.set("Set-Cookie", "session=abc");
+      return { order: ++created };
+    },
+  });
+  return { POST, created: () => created };
+}
+
+describe("idempotency", () => {
+  it("replays the stored response to a repeated key", async () => {
+    const route = orderRoute();
+    const headers = { "Idempotency-Key": "k1", Authorization: "Bearer a" };
+
+    const first = await post(route.POST, { item: 1 }, headers);
+    const second = await post(route.POST, { item: 1 }, headers);
+
+    assert.deepEqual(await first.json(), { order: 1 });
+    assert.deepEqual(await second.json(), { order: 1 });
+    assert.equal(second.headers.get("Idempotent-Replayed"), "true");
+    assert.equal(route.created(), 1);
+  });
+
+  it("doesn't replay cookies", async () => {
+    const route = orderRoute();
+    const headers = { "Idempotency-Key": "k1", Authorization: "Bearer a" };
+
+    const first = await post(route.POST, { item: 1 }, headers);
+    const second = await post(route.POST, { item: 1 }, headers);
+
+    assert.equal(first.headers.get("Set-Cookie"), "session=abc");
+    assert.equal(second.headers.get("Set-Cookie"), null);
+  });
+
+  it("keeps each caller's keys apart", async () => {
+    const route = orderRoute();
+
+    await post(route.POST, { item: 1 }, {
+      "Idempotency-Key": "k1",
+      Authorization: "Bearer a",
+    });
+    const other = await post(route.POST, { item: 1 }, {
+      "Idempotency-Key": "k1",
+      Authorization: "Bearer b",
+    });
+
+    assert.deepEqual(await other.json(), { order: 2 });
+    assert.equal(route.created(), 2);
+  });
+
+  it("answers a key reused with another body with a 422", async () => {
+    const route = orderRoute();
+    const headers = { "Idempotency-Key": "k1", Authorization: "Bearer a" };
+
+    await post(route.POST, { item: 1 }, headers);
+    const res = await post(route.POST, { item: 2 }, headers);
+
+    assert.equal(res.status, 422);
+    assert.equal((await res.json()).code, "IDEMPOTENCY_KEY_MISMATCH");
+    assert.equal(route.created(), 1);
+  });
+
+  it("answers a repeat while the first request runs with a 409", async () => {
+    let finish!: () => void;
+    const running = new Promise<void>((resolve) => (finish = resolve));
+    const route = orderRoute(() => running);
+    const headers = { "Idempotency-Key": "k1", Authorization: "Bearer a" };
+
+    const first = post(route.POST, { item: 1 }, headers);
+    const second = await post(route.POST, { item: 1 }, headers);
+    finish();
+
+    assert.equal(second.status, 409);
+    assert.equal(second.headers.get("Retry-After"), "1");
+    assert.equal((await second.json()).code, "IDEMPOTENCY_CONFLICT");
+    assert.deepEqual(await (await first).json(), { order: 1 });
+  });
+});
+
+describe("memory store", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("forgets a key once its ttl has passed", async () => {
+    let now = 1_000_000;
+    mock.method(Date, "now", () => now);
+    const store = createMemoryIdempotencyStore();
+
+    await store.claim("k1", "a", 60);
+    now += 59_000;
+    assert.deepEqual(await store.claim("k1", "b", 60), {
+      fingerprint: "a",
+      response: null,
+    });
+    now += 1_000;
+    assert.equal(await store.claim("k1", "b", 60), undefined);
+  });
+});
+
+describe("retrying idempotent requests", () => {
+  const conflict = () =>
+    Response.json(
+      { error: "Still running", code: "IDEMPOTENCY_CONFLICT" },
+      { status: 409, headers: { "Retry-After": "0" } }
+    );
+
+  it("retries a conflict until the first request is done", async () => {
+    const responses = [conflict(), Response.json({ order: 1 })];
+    const fetchImpl = async () => responses.shift()!;
+
+    const result = await fetchWithPolicy(
+      "http://localhost/api/orders",
+      { method: "POST", headers: { "Idempotency-Key": "k1" } },
+      { retry: 2 },
+      fetchImpl as typeof fetch,
+      (res) => res.json()
+    );
+
+    assert.deepEqual(result, { order: 1 });
+  });
+
+  it("doesn't retry other conflicts", async () => {
+    const fetchImpl = async () =>
+      Response.json({ code: "EMAIL_TAKEN" }, { status: 409 });
+
+    const res = await fetchWithPolicy(
+      "http://localhost/api/orders",
+      { method: "POST", headers: { "Idempotency-Key": "k1" } },
+      { retry: 2 },
+      fetchImpl as typeof fetch,
+      async (res) => res
+    );
+
+    assert.equal(res.status, 409);
+  });
+});
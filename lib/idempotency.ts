@@ -0,0 +1,197 @@
+import type { NextRequest } from "next/server";
+import { IdempotencyConflict, IdempotencyKeyMismatch } from "./api-error";
+import { clientIp } from "./rate-limit";
+import { IDEMPOTENCY_KEY_HEADER } from "./retry";
+import { NDJSON_CONTENT_TYPE, SSE_CONTENT_TYPE } from "./stream";
+
+// A finished response, kept so a repeated request can be answered with it
+export type StoredResponse = {
+  status: number;
+  headers: [string, string][];
+  body: string;
+};
+
+// What's kept under a key: a hash of the body of the request that claimed
+// it, and its response once there is one
+export type IdempotencyRecord = {
+  fingerprint: string;
+  response: StoredResponse | null;
+};
+
+export type IdempotencyStore = {
+  // Reserve `key` for `ttl` seconds for a request with the given body
+  // fingerprint. Returns undefined when the caller got it, or the record of
+  // the earlier request with the key: its response is null while that one
+  // is still running.
+  claim(
+    key: string,
+    fingerprint: string,
+    ttl: number
+  ): Promise<IdempotencyRecord | undefined>;
+  save(key: string, record: IdempotencyRecord, ttl: number): Promise<void>;
+  // Forget a key so the request can run again, e.g. after a server error
+  release(key: string): Promise<void>;
+};
+
+export type IdempotencyOptions<TContext = unknown> = {
+  // Whose keys these are, so one caller's key never replays another's
+  // response, e.g. the signed-in user's id. By default the request's
+  // Authorization header, else its cookies, else the client's IP.
+  key?: (
+    context: TContext
+  ) => string | null | undefined | Promise<string | null | undefined>;
+  // Where keys are kept; the default is in memory, so use a shared store
+  // when running more than one server instance
+  store?: IdempotencyStore;
+  // Seconds a response is replayed for (default one day)
+  ttl?: number;
+};
+
+// Methods that can't have side effects are never deduplicated
+export const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// Claims between sweeps of expired entries
+const SWEEP_INTERVAL = 1000;
+
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+  const entries = new Map<
+    string,
+    { record: IdempotencyRecord; expires: number }
+  >();
+  let claims = 0;
+
+  // Expired entries are ignored when read, and swept now and then so keys
+  // no longer used don't pile up
+  const sweep = () => {
+    const now = Date.now();
+    entries.forEach((entry, key) => {
+      if (entry.expires <= now) entries.delete(key);
+    });
+  };
+
+  return {
+    async claim(key, fingerprint, ttl) {
+      if (++claims % SWEEP_INTERVAL === 0) sweep();
+      const entry = entries.get(key);
+      if (entry && entry.expires > Date.now()) return entry.record;
+      entries.set(key, {
+        record: { fingerprint, response: null },
+        expires: Date.now() + ttl * 1000,
+      });
+      return undefined;
+    },
+    async save(key, record, ttl) {
+      entries.set(key, { record, expires: Date.now() + ttl * 1000 });
+    },
+    async release(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+let defaultStore: IdempotencyStore | undefined;
+
+function replay({ status, headers, body }: StoredResponse) {
+  // A 204 can't be given even an empty body
+  const response = new Response(body || null, { status, headers });
+  response.headers.set("Idempotent-Replayed", "true");
+  return response;
+}
+
+function isStreamResponse(response: Response) {
+  const contentType = response.headers.get("content-type") ?? "";
+  return [NDJSON_CONTENT_TYPE, SSE_CONTENT_TYPE].some((type) =>
+    contentType.includes(type)
+  );
+}
+
+async function sha256(text: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+// Hashed, so the store never holds credentials
+async function defaultCaller(req: NextRequest) {
+  const credentials =
+    req.headers.get("authorization") ?? req.headers.get("cookie");
+  if (credentials) return `credentials:${await sha256(credentials)}`;
+  const ip = clientIp(req);
+  return ip ? `ip:${ip}` : "anonymous";
+}
+
+// Run a request once per caller and Idempotency-Key: repeats get the stored
+// response, a 409 while the first one is still running, or a 422 when they
+// send a different body. Server errors and streams aren't stored, so
+// retrying those runs the handler again.
+export async function runIdempotent<
+  TContext extends { req: NextRequest; response: { headers: Headers } }
+>(
+  context: TContext,
+  options: IdempotencyOptions<TContext> | undefined,
+  run: () => Promise<Response>
+): Promise<Response> {
+  const { req } = context;
+  const idempotencyKey = req.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (!options || !idempotencyKey || SAFE_METHODS.includes(req.method)) {
+    return run();
+  }
+
+  const store =
+    options.store ?? (defaultStore ??= createMemoryIdempotencyStore());
+  const ttl = options.ttl ?? 24 * 60 * 60;
+  const caller =
+    (options.key && (await options.key(context))) ||
+    (await defaultCaller(req));
+  const { pathname } = new URL(req.url);
+  const key = `${req.method} ${pathname} ${caller} ${idempotencyKey}`;
+  const fingerprint = await sha256(await req.clone().text());
+
+  const stored = await store.claim(key, fingerprint, ttl);
+  if (stored && stored.fingerprint !== fingerprint) {
+    throw IdempotencyKeyMismatch();
+  }
+  if (stored?.response === null) {
+    // Clients retry after Retry-After, by when the first one may be done
+    context.response.headers.set("Retry-After", "1");
+    throw IdempotencyConflict();
+  }
+  if (stored) {
+    return replay(stored.response);
+  }
+
+  let response: Response;
+  try {
+    response = await run();
+  } catch (error) {
+    await store.release(key);
+    throw error;
+  }
+
+  if (response.status >= 500 || isStreamResponse(response)) {
+    await store.release(key);
+    return response;
+  }
+
+  const body = await response.text();
+  // Cookies are meant for the caller that got them, not for replays
+  const storedHeaders = [...response.headers].filter(
+    ([name]) => name.toLowerCase() !== "set-cookie"
+  );
+  await store.save(
+    key,
+    {
+      fingerprint,
+      response: { status: response.status, headers: storedHeaders, body },
+    },
+    ttl
+  );
+  return new Response(body || null, {
+    status: response.status,
+    headers: response.headers,
+  });
+}
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { z } from "zod";
+import {
+  createApiHandler,
+  withSchema,
+  type ExtractHandlers,
+} from "./api-builder";
+import { createMockApi } from "./mock-api";
+
+const itemRoute = createApiHandler.route("/api/items/[id]")({
+  GET: withSchema(
+    z.object({ id: z.number(), expand: z.boolean().default(false) }),
+    async ({ id }) => ({ id, name: "Real" })
+  ),
+});
+
+type Routes = { "/api/items/[id]": ExtractHandlers<typeof itemRoute> };
+
+describe("mock API", () => {
+  it("parses input with the real route's schema", async () => {
+    const mock = createMockApi<Routes>({
+      routes: { "/api/items/[id]": itemRoute },
+    });
+    mock.on("/api/items/[id]", "GET", (input) => ({
+      id: input.id,
+      name: input.expand ? "Expanded" : "Mocked",
+    }));
+
+    const res = await mock.fetch("/api/items/7?expand=true");
+
+    assert.deepEqual(await res.json(), { id: 7, name: "Expanded" });
+    assert.deepEqual(mock.calls("/api/items/[id]", "GET")[0].input, {
+      id: 7,
+      expand: true,
+    });
+  });
+
+  it("answers input the real route rejects with a 400", async () => {
+    const mock = createMockApi<Routes>({
+      routes: { "/api/items/[id]": itemRoute },
+    });
+    mock.on("/api/items/[id]", "GET", { id: 1, name: "Mocked" });
+
+    const res = await mock.fetch("/api/items/abc");
+
+    assert.equal(res.status, 400);
+    assert.equal((await res.json()).code, "VALIDATION_ERROR");
+    assert.equal(mock.calls("/api/items/[id]", "GET").length, 0);
+  });
+
+  it("passes input on as read without the routes", async () => {
+    const mock = createMockApi<Routes>();
+    mock.on("/api/items/[id]", "GET", { id: 1, name: "Mocked" });
+
+    await mock.fetch("/api/items/7?expand=true");
+
+    assert.deepEqual(mock.calls("/api/items/[id]", "GET")[0].input, {
+      id: "7",
+      expand: "true",
+    });
+  });
+});
@@ -0,0 +1,408 @@
+import { NextRequest } from "next/server";
+import type { z } from "zod";
+import {
+  createApiHandler,
+  type HandlerResponse,
+  type InferError,
+  type InferOutput,
+  type SchemaHandler,
+} from "./api-builder";
+import { createBatchRoute } from "./batch";
+import type { RouteInput } from "./request";
+import {
+  loadRouteModule,
+  type RouteHandlerFn,
+  type RouteModuleSource,
+} from "./server-caller";
+import { richTransformer } from "./transformer";
+
+export type MockOptions = {
+  // Milliseconds to wait before responding, e.g. to test loading states
+  delay?: number;
+  // Answer only the next matching request, then fall back to the mock
+  // registered before this one
+  once?: boolean;
+};
+
+// Input as read, before any schema: path params merged with the JSON or
+// form body for POST, PUT and PATCH, or with the query otherwise. Query and
+// form values are strings.
+export type RawMockInput = Record<string, unknown>;
+
+// Mocks of a mock API given the real `routes` get the input the route's
+// handler would, parsed and coerced by its schema. Without them, nothing
+// parses the input, so it's typed as read.
+export type MockInput<
+  TRoutes,
+  TRoute extends keyof TRoutes,
+  TMethod extends keyof TRoutes[TRoute],
+  TParsed extends boolean = true
+> = TParsed extends false
+  ? RawMockInput
+  : TRoutes[TRoute][TMethod] extends { schema: infer TSchema extends z.ZodType }
+  ? z.output<TSchema>
+  : RouteInput<TRoutes, TRoute, TMethod>;
+
+// A request a mock answered, with its input parsed as the route would
+export type MockCall<TInput> = {
+  input: TInput;
+  url: string;
+  headers: Headers;
+};
+
+type MockContext = {
+  req: NextRequest;
+  params: Record<string, string | string[] | undefined>;
+  // Status, headers and cookies for the mocked response
+  response: HandlerResponse;
+  requestId: string;
+};
+
+// A fixture typed as the route's output, or a function computing one from
+// the request's input. Throw an ApiError from it to send an error response.
+export type MockResponse<
+  TRoutes,
+  TRoute extends keyof TRoutes,
+  TMethod extends keyof TRoutes[TRoute],
+  TParsed extends boolean = true
+> =
+  | InferOutput<TRoutes[TRoute][TMethod]>
+  | ((
+      input: MockInput<TRoutes, TRoute, TMethod, TParsed>,
+      context: MockContext
+    ) =>
+      | InferOutput<TRoutes[TRoute][TMethod]>
+      | Promise<InferOutput<TRoutes[TRoute][TMethod]>>);
+
+export type MockApiOptions = {
+  // The app's route modules, e.g. the generated `routeModules`, so mocked
+  // requests are validated and coerced by the real routes' schemas
+  routes?: Record<string, RouteModuleSource>;
+  // Batch route answered from the registered mocks, so clients created
+  // with `batch` work unchanged (default "/api/batch"), or false
+  batchUrl?: string | false;
+  // Requests no mock matches make fetch reject (default), or "bypass"
+  // sends them on to the real fetch
+  onUnhandled?: "error" | "bypass";
+};
+
+type MockEntry = {
+  route: string;
+  method: string;
+  respond: (input: any, context: MockContext) => unknown;
+  options: MockOptions;
+};
+
+// Matches /[[...name]], /[...name] and /[name] segments, or a character
+// that has to be escaped in a RegExp
+const ROUTE_TOKEN =
+  /\/\[\[\.\.\.([^\]]+)\]\]|\/\[\.\.\.([^\]]+)\]|\/\[([^\]]+)\]|[.*+?^${}()|\\]/g;
+
+// Path params of `pathname` if it matches the route pattern
+function matchRoute(route: string, pathname: string) {
+  const names: { name: string; catchAll: boolean }[] = [];
+  const source = route.replace(
+    ROUTE_TOKEN,
+    (token, optional?: string, catchAll?: string, name?: string) => {
+      if (optional) {
+        names.push({ name: optional, catchAll: true });
+        return "(?:/(.+))?";
+      }
+      if (catchAll) {
+        names.push({ name: catchAll, catchAll: true });
+        return "/(.+)";
+      }
+      if (name) {
+        names.push({ name, catchAll: false });
+        return "/([^/]+)";
+      }
+      return `\\${token}`;
+    }
+  );
+
+  const match = new RegExp(`^${source}/?$`).exec(pathname);
+  if (!match) return undefined;
+
+  const params: Record<string, string | string[]> = {};
+  names.forEach(({ name, catchAll }, index) => {
+    const value = match[index + 1];
+    if (value === undefined) return;
+    params[name] = catchAll
+      ? value.split("/").map(decodeURIComponent)
+      : decodeURIComponent(value);
+  });
+  return { params, specificity: -names.length };
+}
+
+// Cut short when the request is aborted; fetch has rejected by then
+function delay(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+// A mocked route's handler for `method`: the real route's schema handler
+// answering with `respond`, so its input is parsed the same way, or
+// `respond` itself when there's no schema to parse with
+async function mockedMethod(
+  source: RouteModuleSource | undefined,
+  method: string,
+  respond: (input: unknown, context: MockContext) => unknown
+) {
+  const routeModule = source ? await loadRouteModule(source) : {};
+  const handler = (routeModule[method] as { __handler?: unknown } | undefined)
+    ?.__handler;
+  if (
+    typeof handler !== "object" ||
+    handler === null ||
+    !("__isSchemaHandler" in handler)
+  ) {
+    return respond;
+  }
+
+  // Fixtures are checked against the output type instead, and never cached
+  return {
+    ...(handler as SchemaHandler<MockContext>),
+    handler: respond,
+    outputSchema: undefined,
+    cache: undefined,
+  };
+}
+
+export type MockApi<
+  TRoutes extends Record<string, any>,
+  TParsed extends boolean
+> = ReturnType<
+  typeof mockApi<TRoutes, TParsed>
+>;
+
+// Typed fake of the API for component tests: register fixtures per route
+// and method, then point the client's fetch at `mock.fetch` (or call
+// `mock.install()`). Requests go through the same error responses and
+// streaming as real routes, and the same input parsing when given `routes`.
+export function createMockApi<TRoutes extends Record<string, any>>(
+  options: MockApiOptions & { routes: Record<string, RouteModuleSource> }
+): MockApi<TRoutes, true>;
+export function createMockApi<TRoutes extends Record<string, any>>(
+  options?: MockApiOptions
+): MockApi<TRoutes, false>;
+export function createMockApi(options: MockApiOptions = {}) {
+  return mockApi(options);
+}
+
+function mockApi<
+  TRoutes extends Record<string, any>,
+  TParsed extends boolean
+>(options: MockApiOptions) {
+  const realFetch = globalThis.fetch;
+  const batchUrl = options.batchUrl ?? "/api/batch";
+  let entries: MockEntry[] = [];
+  let calls: (MockCall<unknown> & { route: string; method: string })[] = [];
+
+  const register = (entry: MockEntry) => {
+    entries.push(entry);
+  };
+
+  // Route handler answering `method` requests with the latest mock for it
+  const mockHandler =
+    (route: string, method: string) =>
+    async (input: unknown, context: MockContext) => {
+      const index = entries.findLastIndex(
+        (entry) => entry.route === route && entry.method === method
+      );
+      const entry = entries[index];
+      // A `once` mock may have been used up by a concurrent request
+      if (!entry) {
+        throw new Error(`No mock registered for ${method} ${route}`);
+      }
+      if (entry.options.once) {
+        entries.splice(index, 1);
+      }
+
+      calls.push({
+        route,
+        method,
+        input,
+        url: context.req.url,
+        headers: new Headers(context.req.headers),
+      });
+      if (entry.options.delay) {
+        await delay(entry.options.delay, context.req.signal);
+      }
+      return entry.respond(input, context);
+    };
+
+  // A route module per mocked route, built like a real one; rich
+  // serialization keeps Dates and friends intact whatever the route uses
+  const routeModules = async () => {
+    const methodsByRoute = new Map<string, Set<string>>();
+    for (const { route, method } of entries) {
+      methodsByRoute.set(
+        route,
+        (methodsByRoute.get(route) ?? new Set()).add(method)
+      );
+    }
+
+    const modules = await Promise.all(
+      [...methodsByRoute].map(async ([route, methods]) => {
+        const handlers = await Promise.all(
+          [...methods].map(async (method) => [
+            method,
+            await mockedMethod(
+              options.routes?.[route],
+              method,
+              mockHandler(route, method)
+            ),
+          ])
+        );
+        return [
+          route,
+          createApiHandler.transformer(richTransformer)(
+            Object.fromEntries(handlers)
+          ) as Record<string, unknown>,
+        ] as const;
+      })
+    );
+    return Object.fromEntries(modules);
+  };
+
+  const respond = async (req: NextRequest) => {
+    const { pathname } = req.nextUrl;
+    const modules = await routeModules();
+
+    const matches = Object.keys(modules)
+      .map((route) => ({ route, match: matchRoute(route, pathname) }))
+      .filter(
+        ({ route, match }) =>
+          match && typeof modules[route][req.method] === "function"
+      )
+      .sort((a, b) => b.match!.specificity - a.match!.specificity);
+
+    if (matches.length > 0) {
+      const { route, match } = matches[0];
+      const handler = modules[route][req.method] as RouteHandlerFn;
+      return handler(req, { params: Promise.resolve(match!.params) });
+    }
+
+    if (batchUrl && pathname === batchUrl && req.method === "POST") {
+      // Typed as its handler definition, but a route handler at runtime
+      const { POST } = createBatchRoute(modules);
+      return (POST as unknown as RouteHandlerFn)(req, {
+        params: Promise.resolve({}),
+      });
+    }
+    return undefined;
+  };
+
+  const mockFetch: typeof fetch = async (input, init) => {
+    // Relative URLs need an origin to parse; it's never contacted
+    const req = new NextRequest(
+      input instanceof Request
+        ? input
+        : new URL(String(input), "http://localhost"),
+      init as ConstructorParameters<typeof NextRequest>[1]
+    );
+
+    // Reject like fetch does when the caller aborts, even mid-delay
+    const signal = init?.signal;
+    signal?.throwIfAborted();
+    const aborted = new Promise<never>((_, reject) =>
+      signal?.addEventListener("abort", () => reject(signal.reason))
+    );
+
+    const response = await Promise.race([respond(req), aborted]);
+    if (response) return response;
+
+    if (options.onUnhandled === "bypass") {
+      return realFetch(input, init);
+    }
+    throw new Error(
+      `No mock registered for ${req.method} ${req.nextUrl.pathname}`
+    );
+  };
+
+  const mock = {
+    // Answer requests for a route and method with a fixture or a function
+    on: <
+      TRoute extends keyof TRoutes & string,
+      TMethod extends keyof TRoutes[TRoute] & string
+    >(
+      route: TRoute,
+      method: TMethod,
+      response: MockResponse<TRoutes, TRoute, TMethod, TParsed>,
+      mockOptions: MockOptions = {}
+    ) => {
+      register({
+        route,
+        method,
+        respond:
+          typeof response === "function"
+            ? (response as MockEntry["respond"])
+            : () => response,
+        options: mockOptions,
+      });
+      return mock;
+    },
+
+    // Answer with one of the errors the route can produce, e.g. NotFound()
+    onError: <
+      TRoute extends keyof TRoutes & string,
+      TMethod extends keyof TRoutes[TRoute] & string
+    >(
+      route: TRoute,
+      method: TMethod,
+      error: InferError<TRoutes[TRoute][TMethod]>,
+      mockOptions: MockOptions = {}
+    ) => {
+      register({
+        route,
+        method,
+        respond: () => {
+          throw error;
+        },
+        options: mockOptions,
+      });
+      return mock;
+    },
+
+    // Requests answered for a route and method, oldest first
+    calls: <
+      TRoute extends keyof TRoutes & string,
+      TMethod extends keyof TRoutes[TRoute] & string
+    >(
+      route: TRoute,
+      method: TMethod
+    ): MockCall<MockInput<TRoutes, TRoute, TMethod, TParsed>>[] =>
+      calls
+        .filter((call) => call.route === route && call.method === method)
+        .map(({ input, url, headers }) => ({
+          input: input as MockInput<TRoutes, TRoute, TMethod, TParsed>,
+          url,
+          headers,
+        })),
+
+    // Forget every mock and recorded call
+    reset: () => {
+      entries = [];
+      calls = [];
+    },
+
+    fetch: mockFetch,
+
+    // Replace the global fetch, e.g. for a client created without a
+    // `fetch` option. Returns a function restoring the original.
+    install: () => {
+      const original = globalThis.fetch;
+      globalThis.fetch = mockFetch;
+      return () => {
+        globalThis.fetch = original;
+      };
+    },
+  };
+
+  return mock;
+}
@@ -0,0 +1,36 @@
+import type { NextConfig } from "next";
+import {
+  PHASE_DEVELOPMENT_SERVER,
+  PHASE_PRODUCTION_BUILD,
+} from "next/constants";
+import {
+  generateRegistry,
+  watchRegistry,
+  type RouteRegistryOptions,
+} from "./route-registry";
+
+type NextConfigFactory = (
+  phase: string,
+  context: { defaultConfig: NextConfig }
+) => NextConfig | Promise<NextConfig>;
+
+let stopWatching: (() => void) | undefined;
+
+// Next config plugin that keeps the generated ApiRoutes map in sync:
+// regenerated on every build and watched while `next dev` runs
+export function withRouteRegistry(
+  nextConfig: NextConfig | NextConfigFactory = {},
+  options: RouteRegistryOptions = {}
+): NextConfigFactory {
+  return async (phase, context) => {
+    if (phase === PHASE_DEVELOPMENT_SERVER) {
+      stopWatching ??= watchRegistry(options);
+    } else if (phase === PHASE_PRODUCTION_BUILD) {
+      generateRegistry(options);
+    }
+
+    return typeof nextConfig === "function"
+      ? nextConfig(phase, context)
+      : nextConfig;
+  };
+}
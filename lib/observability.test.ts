@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { NotFound } from "./api-error";
+import {
+  observeRequest,
+  randomId,
+  resolveRequestId,
+  type ObservabilityOptions,
+  type Tracer,
+} from "./observability";
+
+const UUID =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+function request(headers: Record<string, string> = {}) {
+  return new Request("http://localhost/api/users", { headers });
+}
+
+describe("request ids", () => {
+  afterEach(() => {
+    delete (crypto as { randomUUID?: unknown }).randomUUID;
+  });
+
+  it("keeps an incoming id that looks like one", () => {
+    const req = request({ "X-Request-Id": "trace-1.2:abc" });
+
+    assert.equal(resolveRequestId(req), "trace-1.2:abc");
+  });
+
+  it("replaces incoming ids that don't look like ids", () => {
+    for (const incoming of ["has spaces", "<script>", "a".repeat(129)]) {
+      const req = request({ "X-Request-Id": incoming });
+
+      assert.match(resolveRequestId(req), UUID);
+    }
+  });
+
+  it("makes ids with generateRequestId", () => {
+    const id = resolveRequestId(request(), { generateRequestId: () => "r1" });
+
+    assert.equal(id, "r1");
+  });
+
+  it("makes UUIDs from getRandomValues without crypto.randomUUID", () => {
+    Object.defineProperty(crypto, "randomUUID", {
+      value: undefined,
+      configurable: true,
+    });
+
+    const ids = [randomId(), randomId()];
+
+    assert.match(ids[0], UUID);
+    assert.notEqual(ids[0], ids[1]);
+  });
+});
+
+describe("observed requests", () => {
+  afterEach(() => mock.restoreAll());
+
+  // The hooks' calls in order, by name and status
+  function recordHooks() {
+    const calls: string[] = [];
+    const options: ObservabilityOptions = {
+      onRequest: () => void calls.push("request"),
+      onSuccess: ({ status }) => void calls.push(`success ${status}`),
+      onError: ({ status }) => void calls.push(`error ${status}`),
+    };
+    return { calls, options };
+  }
+
+  it("reports the request, then its success", async () => {
+    const { calls, options } = recordHooks();
+
+    const res = await observeRequest(
+      request(),
+      "/api/users",
+      options,
+      async () => {
+        calls.push("handler");
+        return Response.json({ ok: true });
+      }
+    );
+
+    assert.deepEqual(calls, ["request", "handler", "success 200"]);
+    assert.match(res.headers.get("X-Request-Id")!, UUID);
+  });
+
+  it("reports error responses to onError with what was thrown", async () => {
+    const errors: unknown[] = [];
+    const failure = new Error("Database down");
+
+    await observeRequest(
+      request(),
+      "/api/users",
+      { onError: ({ error }) => void errors.push(error) },
+      async (observation) => {
+        observation.error = failure;
+        return Response.json({}, { status: 500 });
+      }
+    );
+
+    assert.deepEqual(errors, [failure]);
+  });
+
+  it("logs unexpected errors without onError", async () => {
+    const logged = mock.method(console, "error", () => undefined);
+    const fail = (error: unknown, status: number) =>
+      observeRequest(request(), "/api/users", {}, async (observation) => {
+        observation.error = error;
+        return Response.json({}, { status });
+      });
+
+    await fail(NotFound(), 404);
+    assert.equal(logged.mock.callCount(), 0);
+
+    await fail(new Error("Database down"), 500);
+    assert.equal(logged.mock.callCount(), 1);
+    assert.equal(logged.mock.calls[0].arguments[0], "API Error:");
+  });
+
+  it("answers the request when a hook throws", async () => {
+    mock.method(console, "error", () => undefined);
+
+    const res = await observeRequest(
+      request(),
+      "/api/users",
+      {
+        onRequest: () => {
+          throw new Error("Logger down");
+        },
+      },
+      async () => Response.json({ ok: true })
+    );
+
+    assert.equal(res.status, 200);
+  });
+
+  it("runs the request and its steps in spans", async () => {
+    const spans: string[] = [];
+    const tracer: Tracer = {
+      span: (name, _attributes, fn) => {
+        spans.push(name);
+        return fn({
+          setAttribute: () => undefined,
+          recordError: () => undefined,
+        });
+      },
+    };
+
+    await observeRequest(request(), "/api/users", { tracer }, (observation) =>
+      observation.span("handler", async () => Response.json({}))
+    );
+
+    assert.deepEqual(spans, ["GET /api/users", "handler"]);
+  });
+});
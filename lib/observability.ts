@@ -0,0 +1,225 @@
+import { ApiError } from "./api-error";
+
+// Carries a request's correlation id: read from incoming requests, echoed on
+// every response and sent by the client with each call
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+export type ApiRequestEvent = {
+  requestId: string;
+  // The pattern declared with `.route()`, else the request's path
+  route: string;
+  method: string;
+};
+
+export type ApiResponseEvent = ApiRequestEvent & {
+  status: number;
+  // Milliseconds until the response was ready; a stream goes on after that
+  duration: number;
+  // Input of a withSchema handler once it passed validation
+  input?: unknown;
+};
+
+export type ApiErrorEvent = ApiResponseEvent & {
+  // What the error response was made from, when something was thrown
+  error?: unknown;
+};
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export type TraceSpan = {
+  setAttribute(key: string, value: string | number | boolean): void;
+  // Mark the span as failed
+  recordError(error: unknown): void;
+};
+
+// Adapter to a tracing library: run `fn` in a span that's a child of the
+// current one and end it once `fn` settles, e.g. with OpenTelemetry's
+// `tracer.startActiveSpan`
+export type Tracer = {
+  span<T>(
+    name: string,
+    attributes: SpanAttributes,
+    fn: (span: TraceSpan) => Promise<T>
+  ): Promise<T>;
+};
+
+export type ObservabilityOptions = {
+  onRequest?: (event: ApiRequestEvent) => void | Promise<void>;
+  // Responses with a status below 400
+  onSuccess?: (event: ApiResponseEvent) => void | Promise<void>;
+  // Error responses, and errors thrown once a stream has started. Without
+  // it, errors that aren't ApiErrors are logged to the console.
+  onError?: (event: ApiErrorEvent) => void | Promise<void>;
+  // Spans for the request, its validation and its handler
+  tracer?: Tracer;
+  // Id for requests that don't bring a usable one (default: a UUID)
+  generateRequestId?: () => string;
+};
+
+// What a route records while it handles one request
+export type Observation = {
+  requestId: string;
+  input?: unknown;
+  error?: unknown;
+  // Run a step of the request in a child span
+  span<T>(name: string, fn: (span: TraceSpan) => Promise<T>): Promise<T>;
+  // Report an error thrown after the response was sent, e.g. mid-stream
+  reportError(error: unknown): void;
+};
+
+const NOOP_SPAN: TraceSpan = {
+  setAttribute: () => undefined,
+  recordError: () => undefined,
+};
+
+// A random UUID. crypto.randomUUID is only there in secure contexts, so a
+// page served over plain HTTP, e.g. from a LAN address, makes one from
+// getRandomValues instead.
+export function randomId() {
+  if (typeof crypto.randomUUID === "function") return crypto.randomUUID();
+
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  // Version 4, RFC 4122 variant
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+}
+
+// Incoming ids are kept so a request can be followed across services, as
+// long as they look like ids rather than arbitrary header text
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+export function resolveRequestId(
+  req: Request,
+  options: ObservabilityOptions = {}
+) {
+  const incoming = req.headers.get(REQUEST_ID_HEADER);
+  if (incoming && REQUEST_ID_PATTERN.test(incoming)) return incoming;
+  return options.generateRequestId?.() ?? randomId();
+}
+
+// Console report of an error nobody threw on purpose
+export function logUnexpectedError(
+  error: unknown,
+  fields: Record<string, unknown> = {}
+) {
+  if (error instanceof ApiError) return;
+  console.error("API Error:", fields, error);
+}
+
+// A broken hook mustn't break the request it reports on
+async function runHook<TEvent>(
+  hook: ((event: TEvent) => void | Promise<void>) | undefined,
+  event: TEvent
+) {
+  try {
+    await hook?.(event);
+  } catch (error) {
+    console.error("Observability hook failed:", error);
+  }
+}
+
+// A copy of `response` carrying the request id, unless it already does; the
+// original's headers may be immutable, e.g. when it came from fetch()
+function withRequestId(response: Response, requestId: string) {
+  if (response.headers.has(REQUEST_ID_HEADER)) return response;
+
+  const headers = new Headers(response.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+// Handle a request in a span, reporting it to the hooks and echoing its id
+export function observeRequest(
+  req: Request,
+  route: string | undefined,
+  options: ObservabilityOptions = {},
+  run: (observation: Observation) => Promise<Response>
+): Promise<Response> {
+  const start = performance.now();
+  const event: ApiRequestEvent = {
+    requestId: resolveRequestId(req, options),
+    route: route ?? new URL(req.url).pathname,
+    method: req.method,
+  };
+  const { tracer } = options;
+  const inSpan = <T>(
+    name: string,
+    attributes: SpanAttributes,
+    fn: (span: TraceSpan) => Promise<T>
+  ) => (tracer ? tracer.span(name, attributes, fn) : fn(NOOP_SPAN));
+
+  const report = (result: ApiErrorEvent) =>
+    options.onError
+      ? runHook(options.onError, result)
+      : logUnexpectedError(result.error, {
+          requestId: result.requestId,
+          method: result.method,
+          route: result.route,
+          status: result.status,
+          duration: result.duration,
+        });
+
+  const observation: Observation = {
+    requestId: event.requestId,
+    span: (name, fn) =>
+      inSpan(name, { "request.id": event.requestId }, async (span) => {
+        try {
+          return await fn(span);
+        } catch (error) {
+          span.recordError(error);
+          throw error;
+        }
+      }),
+    reportError: (error) => {
+      void report({
+        ...event,
+        status: error instanceof ApiError ? error.status : 500,
+        duration: performance.now() - start,
+        input: observation.input,
+        error,
+      });
+    },
+  };
+
+  return inSpan(
+    `${event.method} ${event.route}`,
+    {
+      "http.request.method": event.method,
+      "http.route": event.route,
+      "request.id": event.requestId,
+    },
+    async (span) => {
+      await runHook(options.onRequest, event);
+      const response = withRequestId(await run(observation), event.requestId);
+
+      const result: ApiErrorEvent = {
+        ...event,
+        status: response.status,
+        duration: performance.now() - start,
+        input: observation.input,
+      };
+      span.setAttribute("http.response.status_code", response.status);
+      if (response.status < 400) {
+        await runHook(options.onSuccess, result);
+      } else {
+        if (response.status >= 500) span.recordError(observation.error);
+        await report({ ...result, error: observation.error });
+      }
+      return response;
+    }
+  );
+}
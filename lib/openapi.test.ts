@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createApiHandler, withSchema } from "./api-builder";
+import { createOpenApiRoute, generateOpenApiDocument } from "./openapi";
+import { createMemoryRateLimitStore } from "./rate-limit";
+import type { RouteHandlerFn } from "./server-caller";
+
+const info = { title: "Test API", version: "1.0.0" };
+
+async function operations(route: string, routeModule: object) {
+  const document = await generateOpenApiDocument(
+    { [route]: routeModule as Record<string, unknown> },
+    { info }
+  );
+  return Object.values(document.paths)[0];
+}
+
+describe("OpenAPI documents", () => {
+  it("documents each part of a parts handler where it's sent", async () => {
+    const { put } = await operations(
+      "/api/posts/[slug]",
+      createApiHandler.route("/api/posts/[slug]")({
+        PUT: withSchema(
+          {
+            params: z.object({ slug: z.string() }),
+            query: z.object({ notify: z.boolean().optional() }),
+            headers: z.object({ "if-match": z.string() }),
+            body: z.object({ title: z.string() }),
+          },
+          async ({ body }) => body
+        ),
+      })
+    );
+
+    assert.deepEqual(
+      put.parameters.map(({ name, in: location, required }: any) => ({
+        name,
+        location,
+        required,
+      })),
+      [
+        { name: "slug", location: "path", required: true },
+        { name: "notify", location: "query", required: false },
+        { name: "if-match", location: "header", required: true },
+      ]
+    );
+    assert.equal(put.requestBody.required, true);
+    assert.deepEqual(
+      put.requestBody.content["application/json"].schema.properties,
+      { title: { type: "string" } }
+    );
+  });
+
+  it("documents inputs with files as multipart bodies", async () => {
+    const { post } = await operations(
+      "/api/users/[id]/avatar",
+      createApiHandler({
+        POST: withSchema(
+          z.object({ id: z.string(), avatar: z.file() }),
+          async (input) => ({ size: input.avatar.size })
+        ),
+      })
+    );
+
+    const { schema } = post.requestBody.content["multipart/form-data"];
+    assert.deepEqual(Object.keys(schema.properties), ["avatar"]);
+    assert.equal(schema.properties.avatar.format, "binary");
+  });
+
+  it("documents the errors the builder adds", async () => {
+    const { get, post } = await operations(
+      "/api/orders",
+      createApiHandler
+        .idempotency()
+        .rateLimit({
+          algorithm: "fixed-window",
+          limit: 5,
+          window: 60,
+          methods: ["POST"],
+          store: createMemoryRateLimitStore(),
+        })({
+        GET: withSchema(z.object({}), async () => []),
+        POST: withSchema(z.object({ item: z.string() }), async () => ({})),
+      })
+    );
+
+    assert.deepEqual(Object.keys(get.responses), ["200", "400", "500"]);
+    assert.deepEqual(Object.keys(post.responses), [
+      "200",
+      "400",
+      "409",
+      "422",
+      "429",
+      "500",
+    ]);
+    assert.equal(
+      post.responses["409"].content["application/json"].schema.properties
+        .code.const,
+      "IDEMPOTENCY_CONFLICT"
+    );
+    assert.equal(post.responses["429"].description, "TOO_MANY_REQUESTS");
+  });
+
+  it("documents the success status handlers declare", async () => {
+    const { post, delete: remove } = await operations(
+      "/api/users",
+      createApiHandler({
+        POST: withSchema(
+          {
+            input: z.object({ name: z.string() }),
+            output: z.object({ id: z.string() }),
+            status: 201,
+          },
+          async () => ({ id: "1" })
+        ),
+        DELETE: withSchema(
+          { input: z.object({ id: z.string() }), status: 204 },
+          async () => undefined
+        ),
+      })
+    );
+
+    assert.equal(post.responses["200"], undefined);
+    assert.ok(post.responses["201"].content["application/json"]);
+    assert.deepEqual(remove.responses["204"], {
+      description: "Successful response",
+    });
+  });
+});
+
+describe("OpenAPI route", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("generates the document again after a failure", async () => {
+    mock.method(console, "error", () => undefined);
+    let loads = 0;
+    const { GET } = createOpenApiRoute(
+      {
+        "/api/users": async () => {
+          if (++loads === 1) throw new Error("Module failed to load");
+          return createApiHandler({ GET: async () => [] });
+        },
+      },
+      { info }
+    );
+    const get = () =>
+      (GET as unknown as RouteHandlerFn)(
+        new NextRequest("http://localhost/api/openapi.json"),
+        { params: Promise.resolve({}) }
+      );
+
+    const failed = await get();
+    const retried = await get();
+
+    assert.equal(failed.status, 500);
+    assert.equal(retried.status, 200);
+    assert.ok((await retried.json()).paths["/api/users"].get);
+  });
+});
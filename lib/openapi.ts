@@ -0,0 +1,394 @@
+import { z } from "zod";
+import { createApiHandler } from "./api-builder";
+import type { ErrorDefinition } from "./api-error";
+import { BODY_METHODS } from "./query";
+import { loadRouteModule, type RouteModuleSource } from "./server-caller";
+
+type JsonSchema = Record<string, any>;
+
+export type OpenApiDocument = {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  paths: Record<string, Record<string, any>>;
+  components: Record<string, any>;
+};
+
+export type OpenApiOptions = {
+  info: OpenApiDocument["info"];
+  servers?: OpenApiDocument["servers"];
+};
+
+const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+// Sent without a body, so documented without content
+const NULL_BODY_STATUSES = [204, 205];
+
+// "/api/users/[id]" -> "/api/users/{id}", catch-alls included
+export function toOpenApiPath(routePath: string) {
+  return routePath.replace(/\[{1,2}(?:\.\.\.)?([^\]]+)\]{1,2}/g, "{$1}");
+}
+
+export function pathParamNames(routePath: string) {
+  return [...routePath.matchAll(/\[{1,2}(?:\.\.\.)?([^\]]+)\]{1,2}/g)].map(
+    (match) => match[1]
+  );
+}
+
+function toJsonSchema(schema: z.ZodType, io: "input" | "output"): JsonSchema {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: "any",
+  });
+  return jsonSchema;
+}
+
+function errorResponseSchema(dataSchema?: JsonSchema): JsonSchema {
+  return {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      code: { type: "string" },
+      ...(dataSchema && { data: dataSchema }),
+    },
+    required: ["error", "code"],
+  };
+}
+
+function jsonContent(schema: JsonSchema) {
+  return { content: { "application/json": { schema } } };
+}
+
+// File fields come out of z.file() as binary strings
+function hasBinary(schema: JsonSchema): boolean {
+  if (schema.format === "binary") return true;
+  return Object.values(schema).some(
+    (value) => value !== null && typeof value === "object" && hasBinary(value)
+  );
+}
+
+function parameter(
+  name: string,
+  location: "query" | "header",
+  schema: JsonSchema,
+  required: boolean
+) {
+  return {
+    name,
+    in: location,
+    required,
+    schema,
+    // Nested objects use bracket keys, e.g. filter[status]=open
+    ...(location === "query" &&
+      schema.type === "object" && { style: "deepObject", explode: true }),
+  };
+}
+
+function requestBody(schema: JsonSchema, required: boolean) {
+  return {
+    required,
+    // Inputs with files are sent as multipart/form-data by the client
+    ...(hasBinary(schema)
+      ? { content: { "multipart/form-data": { schema } } }
+      : jsonContent(schema)),
+  };
+}
+
+// Parameters and body of a handler declaring separate parts, each read
+// from its own channel
+function describeParts(routePath: string, parts: Record<string, z.ZodType>) {
+  const partSchema = (part: string): JsonSchema =>
+    parts[part] ? toJsonSchema(parts[part], "input") : {};
+
+  const params = partSchema("params");
+  const parameters: Record<string, any>[] = pathParamNames(routePath).map(
+    (name) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: params.properties?.[name] ?? { type: "string" },
+    })
+  );
+  for (const [location, part] of [
+    ["query", "query"],
+    ["header", "headers"],
+  ] as const) {
+    const schema = partSchema(part);
+    const required: string[] = schema.required ?? [];
+    for (const [name, property] of Object.entries(schema.properties ?? {})) {
+      parameters.push(
+        parameter(
+          name,
+          location,
+          property as JsonSchema,
+          required.includes(name)
+        )
+      );
+    }
+  }
+
+  const body = parts.body && partSchema("body");
+  return {
+    parameters,
+    requestBody: body && requestBody(body, (body.required ?? []).length > 0),
+  };
+}
+
+function buildOperation(
+  routePath: string,
+  method: string,
+  handlerDef: any,
+  routeErrors: ErrorDefinition<string, any>[] = []
+): Record<string, any> {
+  const isSchemaHandler =
+    typeof handlerDef === "object" &&
+    handlerDef !== null &&
+    "__isSchemaHandler" in handlerDef;
+
+  const operationId = `${method.toLowerCase()}${routePath
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("")}`;
+
+  if (isSchemaHandler && handlerDef.parts) {
+    const { parameters, requestBody } = describeParts(
+      routePath,
+      handlerDef.parts
+    );
+    return describeResponses(
+      handlerDef,
+      isSchemaHandler,
+      {
+        operationId,
+        parameters,
+        ...(requestBody && { requestBody }),
+        responses: {},
+      },
+      routeErrors
+    );
+  }
+
+  const paramNames = pathParamNames(routePath);
+  const inputSchema = isSchemaHandler
+    ? toJsonSchema(handlerDef.schema, "input")
+    : { type: "object" };
+  const properties: Record<string, JsonSchema> = inputSchema.properties ?? {};
+  const required: string[] = inputSchema.required ?? [];
+
+  const parameters: Record<string, any>[] = paramNames.map((name) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: properties[name] ?? { type: "string" },
+  }));
+
+  // Everything that isn't a path param travels in the query or the body
+  const rest = Object.fromEntries(
+    Object.entries(properties).filter(([key]) => !paramNames.includes(key))
+  );
+  const restRequired = required.filter((key) => !paramNames.includes(key));
+
+  const operation: Record<string, any> = {
+    operationId,
+    parameters,
+    responses: {},
+  };
+
+  if (!BODY_METHODS.includes(method)) {
+    for (const [name, schema] of Object.entries(rest)) {
+      parameters.push(
+        parameter(name, "query", schema, restRequired.includes(name))
+      );
+    }
+  } else if (isSchemaHandler || Object.keys(rest).length > 0) {
+    const { required: _required, ...bodySchema } = inputSchema;
+    const schema = {
+      ...bodySchema,
+      type: "object",
+      properties: rest,
+      ...(restRequired.length > 0 && { required: restRequired }),
+    };
+    operation.requestBody = requestBody(schema, restRequired.length > 0);
+  }
+
+  return describeResponses(
+    handlerDef,
+    isSchemaHandler,
+    operation,
+    routeErrors
+  );
+}
+
+function describeResponses(
+  handlerDef: any,
+  isSchemaHandler: boolean,
+  operation: Record<string, any>,
+  routeErrors: ErrorDefinition<string, any>[]
+) {
+  const status: number = (isSchemaHandler && handlerDef.status) || 200;
+  operation.responses[String(status)] = {
+    description: "Successful response",
+    ...(isSchemaHandler &&
+      handlerDef.outputSchema &&
+      !NULL_BODY_STATUSES.includes(status) &&
+      jsonContent(toJsonSchema(handlerDef.outputSchema, "output"))),
+  };
+
+  if (isSchemaHandler) {
+    operation.responses["400"] = {
+      $ref: "#/components/responses/ValidationError",
+    };
+  }
+
+  // Declared errors and the ones the route adds, grouped by status
+  const errors: ErrorDefinition<string, any>[] = [
+    ...((isSchemaHandler && handlerDef.errors) || []),
+    ...routeErrors,
+  ];
+  const byStatus = new Map<number, JsonSchema[]>();
+  for (const error of errors) {
+    const schema = errorResponseSchema(
+      error.dataSchema ? toJsonSchema(error.dataSchema, "output") : undefined
+    );
+    schema.properties.code = { const: error.code };
+    byStatus.set(error.status, [...(byStatus.get(error.status) ?? []), schema]);
+  }
+  for (const [status, schemas] of byStatus) {
+    operation.responses[String(status)] = {
+      description: schemas.map((schema) => schema.properties.code.const).join(", "),
+      ...jsonContent(schemas.length === 1 ? schemas[0] : { oneOf: schemas }),
+    };
+  }
+
+  operation.responses["500"] = {
+    $ref: "#/components/responses/InternalServerError",
+  };
+
+  if (operation.parameters.length === 0) {
+    delete operation.parameters;
+  }
+  return operation;
+}
+
+// Build an OpenAPI 3.1 document from the route modules in the registry
+export async function generateOpenApiDocument(
+  routes: Record<string, RouteModuleSource>,
+  options: OpenApiOptions
+): Promise<OpenApiDocument> {
+  const paths: OpenApiDocument["paths"] = {};
+
+  for (const [routePath, source] of Object.entries(routes)) {
+    const routeModule = await loadRouteModule(source);
+    const operations: Record<string, any> = {};
+
+    for (const method of HTTP_METHODS) {
+      const routeHandler = routeModule[method] as {
+        __handler?: unknown;
+        __errors?: ErrorDefinition<string, any>[];
+      };
+      if (routeHandler?.__handler) {
+        operations[method.toLowerCase()] = buildOperation(
+          routePath,
+          method,
+          routeHandler.__handler,
+          routeHandler.__errors
+        );
+      }
+    }
+
+    if (Object.keys(operations).length > 0) {
+      paths[toOpenApiPath(routePath)] = operations;
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: options.info,
+    ...(options.servers && { servers: options.servers }),
+    paths,
+    components: {
+      responses: {
+        ValidationError: {
+          description: "Input failed schema validation",
+          ...jsonContent({
+            type: "object",
+            properties: {
+              error: { type: "string" },
+              code: { const: "VALIDATION_ERROR" },
+              details: { type: "array", items: { type: "object" } },
+            },
+            required: ["error", "code", "details"],
+          }),
+        },
+        InternalServerError: {
+          description: "Internal server error",
+          ...jsonContent(errorResponseSchema()),
+        },
+      },
+    },
+  };
+}
+
+function yamlKey(key: string) {
+  return /^[A-Za-z_][\w.-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+// Minimal YAML emitter for JSON-compatible values; strings are written as
+// JSON strings, which are valid double-quoted YAML scalars
+export function toYaml(value: unknown, indent = 0): string {
+  const pad = "  ".repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    return value
+      .map((item) => {
+        const rendered = toYaml(item, indent + 1);
+        return isNested(item)
+          ? `${pad}-\n${rendered}`
+          : `${pad}- ${rendered}`;
+      })
+      .join("\n");
+  }
+
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return "{}";
+    return entries
+      .map(([key, item]) =>
+        isNested(item)
+          ? `${pad}${yamlKey(key)}:\n${toYaml(item, indent + 1)}`
+          : `${pad}${yamlKey(key)}: ${toYaml(item, indent + 1)}`
+      )
+      .join("\n");
+  }
+
+  return JSON.stringify(value ?? null);
+}
+
+function isNested(value: unknown) {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    Object.keys(value).length > 0
+  );
+}
+
+// Route handlers serving the document, e.g. from src/app/api/openapi.json/route.ts
+export function createOpenApiRoute(
+  routes: Record<string, RouteModuleSource>,
+  options: OpenApiOptions
+) {
+  let document: Promise<OpenApiDocument> | undefined;
+
+  return createApiHandler({
+    GET: async () => {
+      // A failed generation is retried by the next request
+      document ??= generateOpenApiDocument(routes, options).catch((error) => {
+        document = undefined;
+        throw error;
+      });
+      return document;
+    },
+  });
+}
@@ -0,0 +1,104 @@
+import { mutate, type ScopedMutator } from "swr";
+import { isPlainObject } from "./query";
+import { buildRequest, joinInput, resolveRoute } from "./request";
+
+// Structured SWR cache key: route pattern, method, path params and the rest
+// of the input. SWR hashes array keys stably, so equal inputs share a key.
+export type QueryKey = readonly [
+  route: string,
+  method: string,
+  params: Record<string, unknown>,
+  query: Record<string, unknown>
+];
+
+export type QueryFilter = {
+  route: string;
+  // Only keys whose params/query contain these values match
+  params?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+};
+
+export function queryKey(route: string, input?: unknown): QueryKey {
+  const { params, rest } = resolveRoute(route, input);
+  return [route, "GET", params, rest];
+}
+
+// The input a key was made from, along with the request for it
+export function keyToRequest([route, method, params, query]: QueryKey) {
+  const input = joinInput(params, query);
+  return { input, ...buildRequest(route, method, input) };
+}
+
+// Nested objects, e.g. the parts of a structured input, match by subset too
+function isSubset(
+  subset: Record<string, unknown>,
+  full: Record<string, unknown>
+): boolean {
+  return Object.entries(subset).every(([key, value]) =>
+    isPlainObject(value) && isPlainObject(full[key])
+      ? isSubset(value, full[key])
+      : value === undefined ||
+        JSON.stringify(full[key]) === JSON.stringify(value)
+  );
+}
+
+export function matchesKey(key: unknown, filter: QueryFilter): boolean {
+  return (
+    Array.isArray(key) &&
+    key.length === 4 &&
+    key[0] === filter.route &&
+    key[1] === "GET" &&
+    isSubset(filter.params ?? {}, key[2]) &&
+    isSubset(filter.query ?? {}, key[3])
+  );
+}
+
+// mutate(filter) skips useSWRInfinite's cache entries, so mounted infinite
+// queries register their cache key along with their first page key
+const infiniteQueries = new Map<string, { firstPage: QueryKey; count: number }>();
+
+export function registerInfiniteQuery(cacheKey: string, firstPage: QueryKey) {
+  const entry = infiniteQueries.get(cacheKey);
+  infiniteQueries.set(cacheKey, { firstPage, count: (entry?.count ?? 0) + 1 });
+
+  return () => {
+    const current = infiniteQueries.get(cacheKey);
+    if (!current) return;
+    if (current.count > 1) {
+      infiniteQueries.set(cacheKey, { ...current, count: current.count - 1 });
+    } else {
+      infiniteQueries.delete(cacheKey);
+    }
+  };
+}
+
+// Revalidate every cached query matching the filter, in the global cache or
+// the one `mutateCache` is bound to, e.g. from useSWRConfig()
+export async function invalidateQueries(
+  filter: QueryFilter,
+  mutateCache: ScopedMutator = mutate
+) {
+  const infiniteKeys = [...infiniteQueries]
+    .filter(([, { firstPage }]) => matchesKey(firstPage, filter))
+    .map(([cacheKey]) => cacheKey);
+
+  await Promise.all([
+    mutateCache((key) => matchesKey(key, filter)),
+    ...infiniteKeys.map((cacheKey) => mutateCache(cacheKey)),
+  ]);
+}
+
+// Params of `params` that also appear as segments in `route`
+export function paramsForRoute(
+  route: string,
+  params: Record<string, unknown>
+) {
+  return Object.fromEntries(
+    Object.entries(params).filter(
+      ([key]) =>
+        route.includes(`[${key}]`) ||
+        route.includes(`[...${key}]`) ||
+        route.includes(`[[...${key}]]`)
+    )
+  );
+}
@@ -0,0 +1,241 @@
+import type { z } from "zod";
+
+// Methods whose flat input is sent as the request body; every other
+// method's goes in the query string
+export const BODY_METHODS = ["POST", "PUT", "PATCH"];
+
+type QueryValue = string | QueryValue[] | { [key: string]: QueryValue };
+type FormValue = FormDataEntryValue | FormValue[] | { [key: string]: FormValue };
+
+// "filter[status]" -> ["filter", "status"], "tag[]" -> ["tag", ""]
+function parseKey(key: string) {
+  const match = /^([^[\]]+)((?:\[[^[\]]*\])*)$/.exec(key);
+  if (!match) return [key];
+  const nested = [...match[2].matchAll(/\[([^[\]]*)\]/g)].map((m) => m[1]);
+  return [match[1], ...nested];
+}
+
+// Keys that would write to the prototype instead of the object
+const UNSAFE_KEYS = ["__proto__", "constructor", "prototype"];
+
+function assign(target: Record<string, any>, path: string[], value: unknown) {
+  const [key, ...rest] = path;
+  if (UNSAFE_KEYS.includes(key)) return;
+
+  if (rest.length === 0) {
+    // Repeated keys collect into an array
+    if (Object.hasOwn(target, key)) {
+      const existing = target[key];
+      target[key] = Array.isArray(existing)
+        ? [...existing, value]
+        : [existing, value];
+    } else {
+      target[key] = value;
+    }
+    return;
+  }
+
+  // "tag[]=a&tag[]=b" appends
+  if (rest.length === 1 && rest[0] === "") {
+    const existing = target[key];
+    target[key] = Array.isArray(existing)
+      ? [...existing, value]
+      : existing === undefined
+      ? [value]
+      : [existing, value];
+    return;
+  }
+
+  if (
+    !Object.hasOwn(target, key) ||
+    typeof target[key] !== "object" ||
+    target[key] === null
+  ) {
+    target[key] = {};
+  }
+  assign(target[key], rest, value);
+}
+
+// Structural parse of a query string: repeated keys become arrays and
+// bracket keys nested objects. Values stay strings until coerceQuery.
+export function parseQuery(
+  searchParams: URLSearchParams
+): Record<string, QueryValue> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of searchParams.entries()) {
+    assign(result, parseKey(key), value);
+  }
+  return result;
+}
+
+// The same parse for form bodies, where values may also be files
+export function parseFormData(formData: FormData): Record<string, FormValue> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of formData.entries()) {
+    assign(result, parseKey(key), value);
+  }
+  return result;
+}
+
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// JSON.parse that gives `fallback` (by default the text itself) for
+// anything that isn't JSON
+export function parseJson(text: string, fallback: unknown = text) {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return fallback;
+  }
+}
+
+// Coerce query-string values into the types a Zod schema expects: numbers,
+// booleans, dates, arrays (single values wrap) and objects (bracket or JSON)
+export function coerceQuery(value: unknown, schema: z.ZodType): unknown {
+  const def = (schema as any)._zod.def;
+
+  if (value === undefined) return value;
+
+  switch (def.type) {
+    case "optional":
+    case "default":
+    case "prefault":
+    case "readonly":
+    case "catch":
+    case "nonoptional":
+      return coerceQuery(value, def.innerType);
+    case "nullable":
+      return value === "null" ? null : coerceQuery(value, def.innerType);
+    case "pipe":
+      return coerceQuery(value, def.in);
+    case "lazy":
+      return coerceQuery(value, def.getter());
+    case "number": {
+      if (typeof value !== "string" || value.trim() === "") return value;
+      const number = Number(value);
+      return Number.isNaN(number) ? value : number;
+    }
+    case "bigint": {
+      if (typeof value !== "string") return value;
+      try {
+        return BigInt(value);
+      } catch {
+        return value;
+      }
+    }
+    case "boolean":
+      if (value === "true" || value === "1") return true;
+      if (value === "false" || value === "0") return false;
+      return value;
+    case "date": {
+      if (typeof value !== "string") return value;
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? value : date;
+    }
+    case "literal": {
+      const literal = def.values.find((v: unknown) => String(v) === value);
+      return literal !== undefined ? literal : value;
+    }
+    case "array": {
+      let items = typeof value === "string" ? parseJson(value) : value;
+      // "items[0]=a&items[1]=b" parses as an object with index keys
+      if (isPlainObject(items)) {
+        items = Object.values(items);
+      }
+      if (!Array.isArray(items)) items = [value];
+      return items.map((item: unknown) => coerceQuery(item, def.element));
+    }
+    case "object": {
+      const object = typeof value === "string" ? parseJson(value) : value;
+      if (!isPlainObject(object)) {
+        return object;
+      }
+      return Object.fromEntries(
+        Object.entries(object).map(([key, item]) => {
+          const fieldSchema = def.shape[key] ?? def.catchall;
+          return [key, fieldSchema ? coerceQuery(item, fieldSchema) : item];
+        })
+      );
+    }
+    case "record": {
+      const record = typeof value === "string" ? parseJson(value) : value;
+      if (!isPlainObject(record)) return record;
+      return Object.fromEntries(
+        Object.entries(record).map(([key, item]) => [
+          key,
+          coerceQuery(item, def.valueType),
+        ])
+      );
+    }
+    case "union": {
+      // First option the coerced value satisfies wins
+      for (const option of def.options) {
+        const coerced = coerceQuery(value, option);
+        if (option.safeParse(coerced).success) return coerced;
+      }
+      return value;
+    }
+    default:
+      return value;
+  }
+}
+
+type Append = (key: string, value: string | Blob) => void;
+
+function appendValue(append: Append, key: string, value: unknown) {
+  if (value === undefined) return;
+
+  if (value instanceof Date) {
+    append(key, value.toISOString());
+  } else if (value instanceof Blob) {
+    append(key, value);
+  } else if (Array.isArray(value)) {
+    // Arrays of objects don't survive repeated keys, so send them as JSON
+    if (value.some((item) => isPlainObject(item) || Array.isArray(item))) {
+      append(key, JSON.stringify(value));
+    } else {
+      value.forEach((item) => appendValue(append, key, item));
+    }
+  } else if (value !== null && typeof value === "object") {
+    for (const [nestedKey, item] of Object.entries(value)) {
+      appendValue(append, `${key}[${nestedKey}]`, item);
+    }
+  } else {
+    append(key, String(value));
+  }
+}
+
+// Client-side counterpart of parseQuery: repeated keys for arrays and
+// bracket keys for nested objects
+export function serializeQuery(input: Record<string, unknown>) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(input)) {
+    appendValue((k, v) => params.append(k, String(v)), key, value);
+  }
+  return params.toString();
+}
+
+// Whether an input holds a File or Blob anywhere, so it must be sent as
+// multipart/form-data instead of JSON
+export function hasBlob(value: unknown): boolean {
+  if (value instanceof Blob) return true;
+  if (Array.isArray(value)) return value.some(hasBlob);
+  if (isPlainObject(value)) return Object.values(value).some(hasBlob);
+  return false;
+}
+
+// Client-side counterpart of parseFormData, with the same key layout as
+// serializeQuery
+export function toFormData(input: Record<string, unknown>) {
+  const formData = new FormData();
+  for (const [key, value] of Object.entries(input)) {
+    appendValue((k, v) => formData.append(k, v), key, value);
+  }
+  return formData;
+}
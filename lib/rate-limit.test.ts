@@ -0,0 +1,234 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import { NextRequest } from "next/server";
+import { createApiHandler } from "./api-builder";
+import {
+  clientIp,
+  consumeRateLimit,
+  createMemoryRateLimitStore,
+  type RateLimitOptions,
+  type RateLimitStore,
+} from "./rate-limit";
+import type { RouteHandlerFn } from "./server-caller";
+
+function request(headers: Record<string, string> = {}) {
+  return new NextRequest("http://localhost/api/users", { headers });
+}
+
+// Consume `count` requests of one client at the current time
+async function consume(
+  limit: RateLimitOptions<{ req: NextRequest }>,
+  count = 1
+) {
+  const results = [];
+  for (let i = 0; i < count; i++) {
+    const req = request({ "X-Forwarded-For": "1.2.3.4" });
+    results.push(await consumeRateLimit(limit, { req }, "users"));
+  }
+  return results;
+}
+
+// Time only moves when a test says so
+function freezeTime() {
+  let now = 1_000_000;
+  mock.method(Date, "now", () => now);
+  return (seconds: number) => {
+    now += seconds * 1000;
+  };
+}
+
+describe("client IP", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("takes the address the proxy appended, not one the client sent", () => {
+    const req = request({ "X-Forwarded-For": "6.6.6.6, 1.2.3.4" });
+
+    assert.equal(clientIp(req), "1.2.3.4");
+    assert.equal(clientIp(req, 2), "6.6.6.6");
+  });
+
+  it("has none when fewer proxies appended than are trusted", () => {
+    const req = request({ "X-Forwarded-For": "1.2.3.4" });
+
+    assert.equal(clientIp(req, 2), undefined);
+  });
+
+  it("falls back to X-Real-IP", () => {
+    assert.equal(clientIp(request({ "X-Real-IP": "1.2.3.4" })), "1.2.3.4");
+  });
+
+  it("counts requests without an IP together", async () => {
+    mock.method(console, "warn", () => undefined);
+    const limit = {
+      algorithm: "fixed-window" as const,
+      limit: 1,
+      window: 60,
+      store: createMemoryRateLimitStore(),
+    };
+
+    const first = await consumeRateLimit(limit, { req: request() }, "users");
+    const second = await consumeRateLimit(limit, { req: request() }, "users");
+
+    assert.equal(first.allowed, true);
+    assert.equal(second.allowed, false);
+  });
+});
+
+describe("fixed window", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("allows `limit` requests per window", async () => {
+    const advance = freezeTime();
+    const limit = {
+      algorithm: "fixed-window" as const,
+      limit: 2,
+      window: 60,
+      store: createMemoryRateLimitStore(),
+    };
+
+    const [first, second, third] = await consume(limit, 3);
+    assert.deepEqual(
+      [first.allowed, second.allowed, third.allowed],
+      [true, true, false]
+    );
+    assert.equal(second.remaining, 0);
+    assert.equal(third.retryAfter, 60);
+
+    advance(30);
+    assert.equal((await consume(limit))[0].retryAfter, 30);
+
+    advance(30);
+    assert.equal((await consume(limit))[0].allowed, true);
+  });
+});
+
+describe("token bucket", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("allows bursts of `capacity`, refilled over time", async () => {
+    const advance = freezeTime();
+    const limit = {
+      algorithm: "token-bucket" as const,
+      capacity: 2,
+      refillRate: 0.5,
+      store: createMemoryRateLimitStore(),
+    };
+
+    const [first, second, third] = await consume(limit, 3);
+    assert.deepEqual(
+      [first.allowed, second.allowed, third.allowed],
+      [true, true, false]
+    );
+    assert.equal(third.retryAfter, 2);
+
+    advance(2);
+    const [refilled, empty] = await consume(limit, 2);
+    assert.equal(refilled.allowed, true);
+    assert.equal(empty.allowed, false);
+  });
+});
+
+describe("stores", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("forgets a state once its ttl has passed", async () => {
+    const advance = freezeTime();
+    const store = createMemoryRateLimitStore();
+    const increment = (count: number | undefined) => (count ?? 0) + 1;
+
+    await store.update("k", 60, increment);
+    advance(59);
+    assert.equal(await store.update("k", 60, increment), 2);
+    advance(60);
+    assert.equal(await store.update("k", 60, increment), 1);
+  });
+
+  it("keeps each limit's state under its name and subject", async () => {
+    freezeTime();
+    const updates: { key: string; ttl: number }[] = [];
+    const states = new Map<string, unknown>();
+    const store: RateLimitStore = {
+      async update<TState>(
+        key: string,
+        ttl: number,
+        update: (state: TState | undefined) => TState
+      ) {
+        updates.push({ key, ttl });
+        const state = update(states.get(key) as TState | undefined);
+        states.set(key, state);
+        return state;
+      },
+    };
+
+    await consume({
+      algorithm: "fixed-window",
+      limit: 5,
+      window: 60,
+      name: "create-user",
+      store,
+    });
+    await consume({
+      algorithm: "token-bucket",
+      capacity: 10,
+      refillRate: 2,
+      key: () => "user:1",
+      store,
+    });
+
+    assert.deepEqual(updates, [
+      { key: "ratelimit:create-user:ip:1.2.3.4", ttl: 60 },
+      { key: "ratelimit:users:user:1", ttl: 5 },
+    ]);
+  });
+});
+
+describe("rate-limited routes", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("answers requests over the limit with a 429", async () => {
+    const { POST } = createApiHandler.rateLimit({
+      algorithm: "fixed-window",
+      limit: 1,
+      window: 60,
+      key: () => "user:1",
+      store: createMemoryRateLimitStore(),
+    })({ POST: async () => ({ ok: true }) });
+    const send = () =>
+      (POST as unknown as RouteHandlerFn)(
+        new NextRequest("http://localhost/api/users", { method: "POST" }),
+        { params: Promise.resolve({}) }
+      );
+
+    const allowed = await send();
+    const limited = await send();
+
+    assert.equal(allowed.status, 200);
+    assert.equal(allowed.headers.get("RateLimit-Remaining"), "0");
+    assert.equal(limited.status, 429);
+    assert.equal(limited.headers.get("Retry-After"), "60");
+    assert.deepEqual(await limited.json(), {
+      error: "Too many requests",
+      code: "TOO_MANY_REQUESTS",
+      data: { retryAfter: 60 },
+    });
+  });
+
+  it("limits requests without an IP", async () => {
+    mock.method(console, "warn", () => undefined);
+    const { GET } = createApiHandler.rateLimit({
+      algorithm: "fixed-window",
+      limit: 1,
+      window: 60,
+      store: createMemoryRateLimitStore(),
+    })({ GET: async () => ({ ok: true }) });
+    const send = () =>
+      (GET as unknown as RouteHandlerFn)(request(), {
+        params: Promise.resolve({}),
+      });
+
+    const statuses = [];
+    for (let i = 0; i < 3; i++) statuses.push((await send()).status);
+
+    assert.deepEqual(statuses, [200, 429, 429]);
+  });
+});
@@ -0,0 +1,241 @@
+import type { NextRequest } from "next/server";
+import { TooManyRequests } from "./api-error";
+
+// At most `limit` requests per `window` seconds, counted from the first one
+export type FixedWindowLimit = {
+  algorithm: "fixed-window";
+  limit: number;
+  window: number;
+};
+
+// Bursts of up to `capacity` requests, refilled at `refillRate` per second
+export type TokenBucketLimit = {
+  algorithm: "token-bucket";
+  capacity: number;
+  refillRate: number;
+};
+
+export type RateLimitStore = {
+  // Replace the state under `key` with `update(state)` and keep it for `ttl`
+  // seconds. Must be atomic: concurrent updates of a key may not interleave.
+  update<TState>(
+    key: string,
+    ttl: number,
+    update: (state: TState | undefined) => TState
+  ): Promise<TState>;
+};
+
+export type RateLimitOptions<TContext> = (
+  | FixedWindowLimit
+  | TokenBucketLimit
+) & {
+  // Who is limited: the client's IP (default), or a key from the context,
+  // e.g. the signed-in user's id. Falls back to the IP when it returns none.
+  // Requests without a known IP share one count.
+  key?:
+    | "ip"
+    | ((
+        context: TContext
+      ) => string | null | undefined | Promise<string | null | undefined>);
+  // Methods the limit applies to (default all)
+  methods?: string[];
+  // Share one count between the routes using this name. By default every
+  // route and method is counted on its own.
+  name?: string;
+  // Where counts are kept; the default is in memory, so use a shared store
+  // when running more than one server instance
+  store?: RateLimitStore;
+  // Proxies in front of the app that append to X-Forwarded-For (default 1)
+  trustedProxies?: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the limit is fully restored
+  reset: number;
+  // Seconds until a limited caller may try again
+  retryAfter: number;
+};
+
+type WindowState = { count: number; resetAt: number };
+type BucketState = { tokens: number; updatedAt: number; allowed: boolean };
+
+// Updates between sweeps of expired entries
+const SWEEP_INTERVAL = 1000;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, { state: unknown; expires: number }>();
+  let updates = 0;
+
+  // Expired entries are ignored when read, and swept now and then so keys
+  // no longer used don't pile up
+  const sweep = () => {
+    const now = Date.now();
+    entries.forEach((entry, key) => {
+      if (entry.expires <= now) entries.delete(key);
+    });
+  };
+
+  return {
+    // Synchronous between reading and writing, so updates can't interleave
+    async update<TState>(
+      key: string,
+      ttl: number,
+      update: (state: TState | undefined) => TState
+    ) {
+      if (++updates % SWEEP_INTERVAL === 0) sweep();
+      const entry = entries.get(key);
+      const current =
+        entry && entry.expires > Date.now() ? entry.state : undefined;
+      const state = update(current as TState | undefined);
+      entries.set(key, { state, expires: Date.now() + ttl * 1000 });
+      return state;
+    },
+  };
+}
+
+let defaultStore: RateLimitStore | undefined;
+
+async function consumeWindow(
+  store: RateLimitStore,
+  key: string,
+  { limit, window }: FixedWindowLimit
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const { count, resetAt } = await store.update<WindowState>(
+    key,
+    window,
+    (state) =>
+      state && state.resetAt > now
+        ? { count: state.count + 1, resetAt: state.resetAt }
+        : { count: 1, resetAt: now + window * 1000 }
+  );
+
+  const reset = Math.ceil((resetAt - now) / 1000);
+  return {
+    allowed: count <= limit,
+    limit,
+    remaining: Math.max(limit - count, 0),
+    reset,
+    retryAfter: count <= limit ? 0 : reset,
+  };
+}
+
+async function consumeBucket(
+  store: RateLimitStore,
+  key: string,
+  { capacity, refillRate }: TokenBucketLimit
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const { tokens, allowed } = await store.update<BucketState>(
+    key,
+    Math.ceil(capacity / refillRate),
+    (state) => {
+      const elapsed = state ? (now - state.updatedAt) / 1000 : 0;
+      const available = state
+        ? Math.min(capacity, state.tokens + elapsed * refillRate)
+        : capacity;
+      return available >= 1
+        ? { tokens: available - 1, updatedAt: now, allowed: true }
+        : { tokens: available, updatedAt: now, allowed: false };
+    }
+  );
+
+  return {
+    allowed,
+    limit: capacity,
+    remaining: Math.floor(tokens),
+    reset: Math.ceil((capacity - tokens) / refillRate),
+    retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / refillRate),
+  };
+}
+
+// Clients can send X-Forwarded-For themselves, so only the addresses the
+// `trustedProxies` in front of the app appended count: the client's is the
+// one the outermost of them added. Without the header, X-Real-IP is used.
+export function clientIp(req: NextRequest, trustedProxies = 1) {
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded) {
+    const hops = forwarded.split(",").map((hop) => hop.trim());
+    return hops.length >= trustedProxies
+      ? hops[hops.length - trustedProxies] || undefined
+      : undefined;
+  }
+  return req.headers.get("x-real-ip") || undefined;
+}
+
+let warnedNoIp = false;
+
+// Count a request against a limit
+export async function consumeRateLimit<TContext extends { req: NextRequest }>(
+  options: RateLimitOptions<TContext>,
+  context: TContext,
+  scope: string
+): Promise<RateLimitResult> {
+  const store =
+    options.store ?? (defaultStore ??= createMemoryRateLimitStore());
+  const ip = clientIp(context.req, options.trustedProxies);
+  const keyed =
+    typeof options.key === "function" && (await options.key(context));
+  if (!keyed && !ip && !warnedNoIp) {
+    warnedNoIp = true;
+    console.warn(
+      "Rate limit: requests without an X-Forwarded-For or X-Real-IP " +
+        "address share one count; check the proxy or set trustedProxies"
+    );
+  }
+  // Failing closed: without an IP, limiting nobody would let any client
+  // through unlimited
+  const subject = keyed || `ip:${ip ?? "unknown"}`;
+  const key = `ratelimit:${options.name ?? scope}:${subject}`;
+
+  return options.algorithm === "fixed-window"
+    ? consumeWindow(store, key, options)
+    : consumeBucket(store, key, options);
+}
+
+function setRateLimitHeaders(headers: Headers, result: RateLimitResult) {
+  headers.set("RateLimit-Limit", String(result.limit));
+  headers.set("RateLimit-Remaining", String(result.remaining));
+  headers.set("RateLimit-Reset", String(result.reset));
+}
+
+// Check a request against the route's limits before running it. Passing
+// requests get RateLimit-* headers for the tightest limit; limited ones get
+// them with Retry-After on a 429.
+export async function runRateLimited<
+  TContext extends { req: NextRequest; response: { headers: Headers } }
+>(
+  limits: RateLimitOptions<TContext>[],
+  context: TContext,
+  { scope, method }: { scope: string; method: string },
+  run: () => Promise<Response>
+): Promise<Response> {
+  // Counted per limit, so one route's limits don't share counts
+  const results = await Promise.all(
+    limits.flatMap((limit, index) =>
+      !limit.methods || limit.methods.includes(method)
+        ? [consumeRateLimit(limit, context, `${scope}:${method}:${index}`)]
+        : []
+    )
+  );
+  if (results.length === 0) return run();
+
+  const { headers } = context.response;
+  const limited = results
+    .filter((result) => !result.allowed)
+    .sort((a, b) => b.retryAfter - a.retryAfter)[0];
+  if (limited) {
+    setRateLimitHeaders(headers, limited);
+    headers.set("Retry-After", String(limited.retryAfter));
+    throw TooManyRequests({ retryAfter: limited.retryAfter });
+  }
+
+  setRateLimitHeaders(
+    headers,
+    results.sort((a, b) => a.remaining - b.remaining)[0]
+  );
+  return run();
+}
@@ -0,0 +1,170 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createApiHandler, withSchema } from "./api-builder";
+import { keyToRequest, queryKey } from "./query-cache";
+import {
+  buildRequest,
+  createRequestClient,
+  fetchResponse,
+  mergeInput,
+  parts,
+  withCallOptions,
+} from "./request";
+import { createCaller, type RouteHandlerFn } from "./server-caller";
+
+describe("parts inputs", () => {
+  it("sends a parts() input split into its parts", () => {
+    const { url, init } = buildRequest(
+      "/api/posts/[slug]",
+      "PUT",
+      parts({
+        params: { slug: "a" },
+        query: { notify: true },
+        body: { title: "T" },
+        headers: { "if-match": "3" },
+      })
+    );
+
+    assert.equal(url, "/api/posts/a?notify=true");
+    assert.equal(init.body, JSON.stringify({ title: "T" }));
+    assert.equal(new Headers(init.headers).get("if-match"), "3");
+  });
+
+  it("sends a flat input whose fields look like parts as it is", () => {
+    const { url, init } = buildRequest("/api/filters", "POST", {
+      query: { text: "a" },
+    });
+
+    assert.equal(url, "/api/filters");
+    assert.equal(init.body, JSON.stringify({ query: { text: "a" } }));
+  });
+
+  it("keeps the parts through page params and cache keys", () => {
+    const input = mergeInput(
+      parts({ params: { slug: "a" }, query: { limit: 10 } }),
+      { query: { offset: 20 } }
+    );
+    const { url } = keyToRequest(queryKey("/api/posts/[slug]", input));
+
+    assert.equal(url, "/api/posts/a?limit=10&offset=20");
+  });
+
+  it("splits the input of server calls to a parts route by itself", async () => {
+    const route = createApiHandler.route("/api/posts/[slug]")({
+      PUT: withSchema(
+        {
+          params: z.object({ slug: z.string() }),
+          body: z.object({ title: z.string() }),
+        },
+        async ({ params, body }) => ({ slug: params.slug, title: body.title })
+      ),
+    });
+
+    const result = await createCaller(route).PUT({
+      params: { slug: "a" },
+      body: { title: "T" },
+    });
+
+    assert.deepEqual(result, { slug: "a", title: "T" });
+  });
+});
+
+describe("call options", () => {
+  // Left out of insecure contexts, e.g. pages served over plain HTTP
+  afterEach(() => {
+    delete (crypto as { randomUUID?: unknown }).randomUUID;
+  });
+
+  it("generates ids without crypto.randomUUID", () => {
+    Object.defineProperty(crypto, "randomUUID", {
+      value: undefined,
+      configurable: true,
+    });
+
+    const { headers } = withCallOptions({}, {}, { idempotencyKey: true });
+    const uuid =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+    assert.match(new Headers(headers).get("Idempotency-Key")!, uuid);
+    assert.match(new Headers(headers).get("X-Request-Id")!, uuid);
+  });
+});
+
+describe("conditional requests", () => {
+  const usersRoute = () =>
+    createApiHandler({
+      GET: withSchema(z.object({}), async () => ({ users: ["a"] }), {
+        cache: { maxAge: 30 },
+      }),
+    });
+
+  // A client calling the route directly, recording what went back and forth
+  function client(route = usersRoute()) {
+    const sent: { ifNoneMatch: string | null; status: number }[] = [];
+    const fetchImpl = async (url: string, init?: RequestInit) => {
+      const res = await (route.GET as unknown as RouteHandlerFn)(
+        new NextRequest(new Request(url, init)),
+        { params: Promise.resolve({}) }
+      );
+      const ifNoneMatch = new Headers(init?.headers).get("If-None-Match");
+      sent.push({ ifNoneMatch, status: res.status });
+      return res;
+    };
+    const api = createRequestClient<{ "/api/users": typeof route }>({
+      baseUrl: "http://localhost",
+      fetch: fetchImpl as typeof fetch,
+    });
+    return { api, sent };
+  }
+
+  it("sends the ETag it has and reuses the body on a 304", async () => {
+    const { api, sent } = client();
+
+    const first = await api.callWithResponse("/api/users", "GET");
+    const second = await api.callWithResponse("/api/users", "GET");
+
+    assert.equal(first.headers.get("Cache-Control"), "public, max-age=30");
+    assert.deepEqual(sent, [
+      { ifNoneMatch: null, status: 200 },
+      { ifNoneMatch: first.headers.get("ETag"), status: 304 },
+    ]);
+    assert.equal(second.status, 304);
+    assert.deepEqual(second.data, { users: ["a"] });
+  });
+
+  it("gives every call its own copy of a reused body", async () => {
+    const { api } = client();
+
+    const first = await api.call("/api/users", "GET");
+    first.users.push("changed");
+    const second = await api.call("/api/users", "GET");
+
+    assert.deepEqual(second, { users: ["a"] });
+  });
+
+  it("keeps each client's bodies apart", async () => {
+    const route = usersRoute();
+    await client(route).api.call("/api/users", "GET");
+    const other = client(route);
+
+    await other.api.call("/api/users", "GET");
+
+    assert.deepEqual(other.sent, [{ ifNoneMatch: null, status: 200 }]);
+  });
+
+  it("resolves a 304 to the caller's own If-None-Match without data", async () => {
+    const fetchImpl = async () =>
+      new Response(null, { status: 304, headers: { ETag: 'W/"1"' } });
+
+    const res = await fetchResponse(
+      "http://localhost/api/users",
+      { headers: { "If-None-Match": 'W/"1"' } },
+      fetchImpl as typeof fetch
+    );
+
+    assert.equal(res.status, 304);
+    assert.equal(res.data, undefined);
+  });
+});
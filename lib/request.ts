@@ -0,0 +1,684 @@
+import type {
+  InferChunk,
+  InferInput,
+  InferOutput,
+  InputParts,
+  PathParams,
+} from "./api-builder";
+import { errorFromResponse } from "./api-error";
+import { randomId, REQUEST_ID_HEADER } from "./observability";
+import {
+  BODY_METHODS,
+  hasBlob,
+  isPlainObject,
+  serializeQuery,
+  toFormData,
+} from "./query";
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  fetchWithPolicy,
+  type RequestPolicy,
+} from "./retry";
+import { NDJSON_CONTENT_TYPE, readStream } from "./stream";
+import {
+  TRANSFORMER_HEADER,
+  findTransformer,
+  type DataTransformer,
+} from "./transformer";
+
+// The route and method a request was made for, typed against the client's
+// routes so interceptors can narrow on them
+export type RouteCall<TRoutes> = {
+  [R in keyof TRoutes]: {
+    route: R;
+    method: keyof TRoutes[R] & string;
+    input?: unknown;
+  };
+}[keyof TRoutes];
+
+export type ClientOptions<TRoutes = Record<string, any>> = RequestPolicy & {
+  // Prepended to every route, e.g. "https://api.example.com"
+  baseUrl?: string;
+  // Static headers, or a function resolving them per request, e.g. to
+  // attach a freshly refreshed token
+  headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+  // Custom fetch implementation, e.g. for tests or instrumentation
+  fetch?: typeof fetch;
+  // Id sent as X-Request-Id with each call unless the call brings its own
+  // (default: a UUID), or false to send none
+  generateRequestId?: (() => string) | false;
+  // Encodes request bodies, e.g. richTransformer to send Dates. Responses
+  // are decoded by the transformer the route names, whatever this is set to.
+  transformer?: DataTransformer;
+  // Runs before every attempt of a request, after the headers are added.
+  // Return a RequestInit to send that instead, e.g. with tracing headers.
+  onRequest?: (
+    request: RouteCall<TRoutes> & { url: string; init: RequestInit }
+  ) => RequestInit | void | Promise<RequestInit | void>;
+  // Sees every response, including failed ones and ones that are retried
+  onResponse?: (
+    event: RouteCall<TRoutes> & { response: Response }
+  ) => void | Promise<void>;
+  // Called with the error a call finally rejects with; cancelled calls
+  // aren't reported
+  onError?: (
+    event: RouteCall<TRoutes> & { error: unknown }
+  ) => void | Promise<void>;
+};
+
+// Per-call overrides of the client's policy, plus cancellation
+export type CallOptions = RequestPolicy & {
+  signal?: AbortSignal;
+  // Sent as the Idempotency-Key header, so a route using `.idempotency()`
+  // runs the call once however often it's retried. `true` generates a key.
+  idempotencyKey?: string | true;
+  // Sent as X-Request-Id, e.g. to forward the id of the request a server
+  // component is rendering
+  requestId?: string;
+};
+
+// fetch options along with the timeout and retry policy for the call
+export type FetchOptions = RequestInit & RequestPolicy;
+
+// A call's decoded body along with the status and headers it was sent with
+export type ApiResponse<T> = {
+  data: T;
+  status: number;
+  headers: Headers;
+};
+
+// Matches [id], [...slug] and [[...slug]] along with the preceding slash
+const PARAM_SEGMENT = /(\/?)(?:\[\[\.\.\.([^\]]+)\]\]|\[\.\.\.([^\]]+)\]|\[([^\]]+)\])/g;
+
+// An input split into parts, for routes whose handler declares them
+type StructuredInput = {
+  [K in keyof InputParts]?: Record<string, unknown>;
+};
+
+// Marks inputs made with `parts()`. Enumerable, so copies made by spreading
+// keep it, while JSON and cache keys leave it out.
+const PARTS: unique symbol = Symbol("parts");
+
+export type SplitInput<T> = T & { readonly [PARTS]: true };
+
+// Routes don't say at runtime which shape they take, so the input of one
+// whose handler declares parts is wrapped in this to be sent split into
+// them, e.g. parts({ params: { slug }, body: { title } })
+export function parts<const T extends StructuredInput>(
+  input: T
+): SplitInput<T> {
+  return { ...input, [PARTS]: true };
+}
+
+export function isSplitInput(
+  input: unknown
+): input is SplitInput<StructuredInput> {
+  return isPlainObject(input) && PARTS in input;
+}
+
+// Layer `overrides` over an input, part by part for one made with `parts()`
+export function mergeInput(input: unknown, overrides: unknown): unknown {
+  if (isSplitInput(input) && isPlainObject(overrides)) {
+    const merged: StructuredInput = { ...input };
+    for (const [part, values] of Object.entries(overrides)) {
+      const key = part as keyof StructuredInput;
+      merged[key] = { ...merged[key], ...(values as object) };
+    }
+    return merged;
+  }
+  return { ...(input as object), ...(overrides as object) };
+}
+
+// Put an input split by resolveRoute back together
+export function joinInput(
+  params: Record<string, unknown>,
+  rest: Record<string, unknown>
+) {
+  return isSplitInput(rest) ? { ...rest, params } : { ...params, ...rest };
+}
+
+// Replace [param] segments with values from the input, returning the rest.
+// For a `parts()` input the values come from `params` and the rest are the
+// other parts, still marked.
+export function resolveRoute(
+  route: string,
+  input?: unknown
+): {
+  path: string;
+  params: Record<string, any>;
+  rest: Record<string, unknown>;
+} {
+  if (isSplitInput(input)) {
+    const { params: values, ...others } = input;
+    const { path, params } = resolveRoute(route, values);
+    const rest = parts(
+      Object.fromEntries(
+        Object.entries(others).filter(([, value]) => value !== undefined)
+      )
+    );
+    return { path, params, rest };
+  }
+
+  const values: Record<string, any> =
+    input && typeof input === "object" ? input : {};
+  const params: Record<string, any> = {};
+
+  const path = route.replace(
+    PARAM_SEGMENT,
+    (segment, slash: string, optional?: string, catchAll?: string, name?: string) => {
+      const key = (optional ?? catchAll ?? name)!;
+      const value = values[key];
+
+      // An omitted optional catch-all drops the segment entirely
+      if (optional && (value === undefined || value.length === 0)) {
+        return "";
+      }
+      if (value === undefined) {
+        return segment;
+      }
+
+      params[key] = value;
+      const parts: unknown[] = Array.isArray(value) ? value : [value];
+      return (
+        slash + parts.map((part) => encodeURIComponent(String(part))).join("/")
+      );
+    }
+  );
+
+  const rest = Object.fromEntries(
+    Object.entries(values).filter(([key]) => !(key in params))
+  );
+
+  return { path, params, rest };
+}
+
+// Build the URL and init for a typed call, shared by the hooks and the
+// plain request client
+export function buildRequest(
+  route: string,
+  method: string,
+  input?: unknown,
+  transformer?: DataTransformer
+): { url: string; init: RequestInit } {
+  const { path, rest } = resolveRoute(route, input);
+
+  // Each part travels in its own channel, whatever the method
+  if (isSplitInput(input)) {
+    const { query = {}, body = {}, headers = {} } = rest as StructuredInput;
+    const init = withBody(method, body, transformer);
+    return {
+      url: withQuery(path, query),
+      init: {
+        ...init,
+        headers: mergeHeaders(init.headers, toHeaders(headers)),
+      },
+    };
+  }
+
+  if (BODY_METHODS.includes(method)) {
+    return { url: path, init: withBody(method, rest, transformer) };
+  }
+  return { url: withQuery(path, rest), init: { method } };
+}
+
+function withQuery(path: string, query: Record<string, unknown>) {
+  const queryString = serializeQuery(query);
+  return queryString ? `${path}?${queryString}` : path;
+}
+
+function withBody(
+  method: string,
+  body: Record<string, unknown>,
+  transformer?: DataTransformer
+): RequestInit {
+  if (Object.keys(body).length === 0) {
+    return { method };
+  }
+
+  // Files can't be JSON encoded, so such inputs go as multipart/form-data
+  if (hasBlob(body)) {
+    return { method, body: toFormData(body) };
+  }
+
+  if (transformer && transformer.name !== "json") {
+    return {
+      method,
+      body: JSON.stringify(transformer.serialize(body)),
+      headers: { [TRANSFORMER_HEADER]: transformer.name },
+    };
+  }
+  return { method, body: JSON.stringify(body) };
+}
+
+// Header values from a structured input, leaving out unset ones
+function toHeaders(values: Record<string, unknown>) {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([name, value]): [string, string] => [name, String(value)]);
+}
+
+// Headers of `init` with `extra` layered on top
+export function mergeHeaders(init?: HeadersInit, extra?: HeadersInit) {
+  const headers = new Headers(init);
+  new Headers(extra).forEach((value, key) => headers.set(key, value));
+  return headers;
+}
+
+// Layer call options over a request and the client's defaults. Generated
+// idempotency keys and request ids are created here, once, so every retry
+// reuses them.
+export function withCallOptions(
+  init: RequestInit,
+  defaults: RequestPolicy & Pick<ClientOptions, "generateRequestId"> = {},
+  options: CallOptions = {}
+): FetchOptions {
+  const { idempotencyKey, requestId, signal, ...policy } = options;
+  const key = idempotencyKey === true ? randomId() : idempotencyKey;
+  const { generateRequestId = randomId } = defaults;
+  const id = requestId ?? (generateRequestId ? generateRequestId() : undefined);
+
+  const headers = new Headers(init.headers);
+  if (key) headers.set(IDEMPOTENCY_KEY_HEADER, key);
+  if (id && !headers.has(REQUEST_ID_HEADER)) {
+    headers.set(REQUEST_ID_HEADER, id);
+  }
+
+  return {
+    ...init,
+    headers,
+    signal: signal ?? init.signal,
+    timeout: policy.timeout ?? defaults.timeout,
+    retry: policy.retry ?? defaults.retry,
+  };
+}
+
+export function withBaseUrl(baseUrl: string | undefined, url: string) {
+  return `${baseUrl?.replace(/\/$/, "") ?? ""}${url}`;
+}
+
+// fetch for one call of a client: adds the client's headers beneath the
+// request's own and runs its request and response interceptors
+export function interceptFetch<TRoutes>(
+  options: ClientOptions<TRoutes>,
+  call: RouteCall<TRoutes>
+): typeof fetch {
+  return async (url, init) => {
+    const headers =
+      typeof options.headers === "function"
+        ? await options.headers()
+        : options.headers;
+    const request: RequestInit = {
+      ...init,
+      headers: mergeHeaders(headers, init?.headers),
+    };
+    const replaced = await options.onRequest?.({
+      ...call,
+      url: String(url),
+      init: request,
+    });
+
+    const response = await (options.fetch ?? fetch)(url, replaced ?? request);
+    await options.onResponse?.({ ...call, response });
+    return response;
+  };
+}
+
+// Pass a call's result through, reporting its failure to onError first
+export async function reportErrors<T, TRoutes>(
+  options: ClientOptions<TRoutes>,
+  call: RouteCall<TRoutes>,
+  promise: Promise<T>
+): Promise<T> {
+  try {
+    return await promise;
+  } catch (error) {
+    if ((error as Error | undefined)?.name !== "AbortError") {
+      await options.onError?.({ ...call, error });
+    }
+    throw error;
+  }
+}
+
+// JSON unless the body is form data, whose boundary fetch sets itself
+function withContentType(options?: RequestInit) {
+  const headers = new Headers(options?.headers);
+  if (!headers.has("Content-Type") && !(options?.body instanceof FormData)) {
+    headers.set("Content-Type", "application/json");
+  }
+  return headers;
+}
+
+// Last GET bodies per URL with their ETags, for conditional requests. Each
+// client keeps its own, so bodies aren't shared between clients, e.g. the
+// ones of different users on a server.
+export type EtagCache = Map<
+  string,
+  { etag: string; text: string; transformer: string | null }
+>;
+const ETAG_CACHE_SIZE = 200;
+
+export function createEtagCache(): EtagCache {
+  return new Map();
+}
+
+export async function fetcher(
+  url: string,
+  options?: FetchOptions,
+  fetchImpl: typeof fetch = fetch,
+  transformer?: DataTransformer,
+  etags?: EtagCache
+) {
+  const { data } = await fetchResponse(
+    url,
+    options,
+    fetchImpl,
+    transformer,
+    etags
+  );
+  return data;
+}
+
+// Like fetcher, but resolves with the response's status and headers too
+export async function fetchResponse(
+  url: string,
+  options?: FetchOptions,
+  fetchImpl: typeof fetch = fetch,
+  transformer?: DataTransformer,
+  etags?: EtagCache
+): Promise<ApiResponse<any>> {
+  const { timeout, retry, ...init } = options ?? {};
+  const headers = withContentType(init);
+  const isGet = (init.method ?? "GET").toUpperCase() === "GET";
+  const cached = isGet ? etags?.get(url) : undefined;
+  if (cached && !headers.has("If-None-Match")) {
+    headers.set("If-None-Match", cached.etag);
+  }
+
+  return fetchWithPolicy(
+    url,
+    { ...init, headers },
+    { timeout, retry },
+    fetchImpl,
+    async (res) => {
+      const meta = { status: res.status, headers: res.headers };
+      if (res.status === 304) {
+        // Not modified: the body we already have is still current, decoded
+        // afresh so callers can't change each other's copy. Without one, the
+        // caller sent its own If-None-Match and gets no body.
+        const data = cached
+          ? decodeBody(cached.text, cached.transformer, transformer)
+          : undefined;
+        return { ...meta, data };
+      }
+
+      const text = await readResponse(res);
+      const etag = res.headers.get("ETag");
+      if (etags && isGet && etag && text) {
+        // Re-inserting keeps the Map ordered from least to most recently used
+        etags.delete(url);
+        etags.set(url, {
+          etag,
+          text,
+          transformer: res.headers.get(TRANSFORMER_HEADER),
+        });
+        if (etags.size > ETAG_CACHE_SIZE) {
+          etags.delete(etags.keys().next().value!);
+        }
+      }
+      return {
+        ...meta,
+        data: decodeBody(
+          text,
+          res.headers.get(TRANSFORMER_HEADER),
+          transformer
+        ),
+      };
+    }
+  );
+}
+
+// Request a streaming route, yielding its chunks as they arrive
+export async function* fetchStream<TChunk>(
+  url: string,
+  options?: RequestInit,
+  fetchImpl: typeof fetch = fetch,
+  transformer?: DataTransformer
+) {
+  const headers = withContentType(options);
+  if (!headers.has("Accept")) {
+    headers.set("Accept", NDJSON_CONTENT_TYPE);
+  }
+
+  yield* readStream<TChunk>(
+    await fetchImpl(url, { ...options, headers }),
+    transformer
+  );
+}
+
+// Read a route response, throwing failures as typed ApiErrors and decoding
+// bodies sent with a transformer. Empty bodies, e.g. of a 204, are undefined.
+export async function parseResponse(
+  res: Response,
+  transformer?: DataTransformer
+) {
+  return decodeBody(
+    await readResponse(res),
+    res.headers.get(TRANSFORMER_HEADER),
+    transformer
+  );
+}
+
+// The body text of a successful response
+async function readResponse(res: Response) {
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({ error: "Network error" }));
+    throw errorFromResponse(
+      res.status,
+      body,
+      res.headers.get(REQUEST_ID_HEADER)
+    );
+  }
+  return res.text();
+}
+
+function decodeBody(
+  text: string,
+  transformerName: string | null,
+  transformer?: DataTransformer
+) {
+  if (!text) return undefined;
+
+  const body = JSON.parse(text);
+  const bodyTransformer = findTransformer(transformerName, transformer);
+  return bodyTransformer ? bodyTransformer.deserialize(body) : body;
+}
+
+// Input for a route and method: the handler's input plus the path params
+// declared by the route's dynamic segments. When the handler declares
+// separate parts, the params go in `params` and the input is made with
+// `parts()`.
+export type RouteInput<
+  TRoutes,
+  TRoute extends keyof TRoutes,
+  TMethod extends keyof TRoutes[TRoute]
+> = HandlerInput<TRoutes[TRoute][TMethod], TRoute & string>;
+
+type HandlerInput<THandler, TPath extends string> = THandler extends {
+  parts: InputParts;
+}
+  ? SplitInput<WithPathParams<InferInput<THandler>, TPath>>
+  : InferInput<THandler> & PathParams<TPath>;
+
+// Some of a route's input, e.g. page params layered over it; parts are
+// partial themselves
+export type PartialRouteInput<
+  TRoutes,
+  TRoute extends keyof TRoutes,
+  TMethod extends keyof TRoutes[TRoute]
+> = TRoutes[TRoute][TMethod] extends { parts: InputParts }
+  ? {
+      [K in keyof WithPathParams<
+        InferInput<TRoutes[TRoute][TMethod]>,
+        TRoute & string
+      >]?: Partial<
+        WithPathParams<InferInput<TRoutes[TRoute][TMethod]>, TRoute & string>[K]
+      >;
+    }
+  : Partial<RouteInput<TRoutes, TRoute, TMethod>>;
+
+// Some of a route's input to match cached queries by, made with `parts()`
+// like the input when the handler declares parts
+export type RouteInputFilter<
+  TRoutes,
+  TRoute extends keyof TRoutes,
+  TMethod extends keyof TRoutes[TRoute]
+> = TRoutes[TRoute][TMethod] extends { parts: InputParts }
+  ? SplitInput<PartialRouteInput<TRoutes, TRoute, TMethod>>
+  : PartialRouteInput<TRoutes, TRoute, TMethod>;
+
+// A `params` part declared by the handler already covers the path params
+type WithPathParams<TInput, TPath extends string> = "params" extends keyof TInput
+  ? TInput
+  : {} extends PathParams<TPath>
+  ? TInput
+  : TInput & { params: PathParams<TPath> };
+
+// The input argument is only optional when nothing in it is required; an
+// input with no parts needs no `parts()`
+export type InputArgs<TInput, TRest extends unknown[] = []> = {} extends (
+  TInput extends SplitInput<unknown> ? Omit<TInput, typeof PARTS> : TInput
+)
+  ? [input?: TInput, ...rest: TRest]
+  : [input: TInput, ...rest: TRest];
+
+// Routes of TRoutes that define the given method
+export type RoutesWithMethod<TRoutes, TMethod extends string> = {
+  [K in keyof TRoutes]: TMethod extends keyof TRoutes[K] ? K : never;
+}[keyof TRoutes];
+
+type RouteMethod<
+  TRoutes,
+  TRoute extends keyof TRoutes,
+  TMethod extends string
+> = TMethod extends keyof TRoutes[TRoute] ? TRoutes[TRoute][TMethod] : never;
+
+// Plain async client for server components, route handlers, scripts and tests
+export function createRequestClient<TRoutes extends Record<string, any>>(
+  options: ClientOptions<TRoutes> = {}
+) {
+  const etags = createEtagCache();
+  const prepare = (route: string, method: string, input: unknown) => {
+    const { url, init } = buildRequest(route, method, input, options.transformer);
+    const call = { route, method, input } as RouteCall<TRoutes>;
+
+    return {
+      url: withBaseUrl(options.baseUrl, url),
+      init,
+      call,
+      fetchImpl: interceptFetch(options, call),
+    };
+  };
+
+  // The typed body along with the status and headers, e.g. to read the
+  // Location of a created resource
+  const callWithResponse = async <
+    TRoute extends keyof TRoutes,
+    TMethod extends keyof TRoutes[TRoute] & string
+  >(
+    route: TRoute,
+    method: TMethod,
+    ...[input, callOptions]: InputArgs<
+      RouteInput<TRoutes, TRoute, TMethod>,
+      [options?: CallOptions]
+    >
+  ): Promise<ApiResponse<InferOutput<TRoutes[TRoute][TMethod]>>> => {
+    const { url, init, call, fetchImpl } = prepare(
+      String(route),
+      method,
+      input
+    );
+    return reportErrors(
+      options,
+      call,
+      fetchResponse(
+        url,
+        withCallOptions(init, options, callOptions),
+        fetchImpl,
+        options.transformer,
+        etags
+      )
+    );
+  };
+
+  const call = async <
+    TRoute extends keyof TRoutes,
+    TMethod extends keyof TRoutes[TRoute] & string
+  >(
+    route: TRoute,
+    method: TMethod,
+    ...args: InputArgs<
+      RouteInput<TRoutes, TRoute, TMethod>,
+      [options?: CallOptions]
+    >
+  ): Promise<InferOutput<TRoutes[TRoute][TMethod]>> => {
+    const { data } = await callWithResponse(route, method, ...args);
+    return data;
+  };
+
+  // Iterate the chunks of a streaming handler, e.g. `for await (const chunk
+  // of client.stream("/api/progress", "GET"))`
+  const stream = async function* <
+    TRoute extends keyof TRoutes,
+    TMethod extends keyof TRoutes[TRoute] & string
+  >(
+    route: TRoute,
+    method: TMethod,
+    ...[input, streamOptions]: InputArgs<
+      RouteInput<TRoutes, TRoute, TMethod>,
+      [options?: { signal?: AbortSignal }]
+    >
+  ): AsyncGenerator<InferChunk<TRoutes[TRoute][TMethod]>> {
+    const { url, init, call, fetchImpl } = prepare(
+      String(route),
+      method,
+      input
+    );
+
+    try {
+      for await (const { data } of fetchStream<
+        InferChunk<TRoutes[TRoute][TMethod]>
+      >(
+        url,
+        { ...init, signal: streamOptions?.signal },
+        fetchImpl,
+        options.transformer
+      )) {
+        yield data;
+      }
+    } catch (error) {
+      await reportErrors(options, call, Promise.reject(error));
+    }
+  };
+
+  const forMethod =
+    <TMethod extends string>(method: TMethod) =>
+    <TRoute extends RoutesWithMethod<TRoutes, TMethod>>(
+      route: TRoute,
+      ...[input, callOptions]: InputArgs<
+        HandlerInput<RouteMethod<TRoutes, TRoute, TMethod>, TRoute & string>,
+        [options?: CallOptions]
+      >
+    ): Promise<InferOutput<RouteMethod<TRoutes, TRoute, TMethod>>> =>
+      call(route, method as any, input as any, callOptions);
+
+  return {
+    call,
+    callWithResponse,
+    stream,
+    get: forMethod("GET"),
+    post: forMethod("POST"),
+    put: forMethod("PUT"),
+    patch: forMethod("PATCH"),
+    delete: forMethod("DELETE"),
+  };
+}
@@ -0,0 +1,179 @@
+export type RetryOptions = {
+  // Attempts after the first one (default 2)
+  retries?: number;
+  // Delay before the first retry, doubled on every attempt with full
+  // jitter (default 300ms)
+  delay?: number;
+  // Longest single wait, including one asked for by Retry-After (default 30s)
+  maxDelay?: number;
+  // Methods that are retried. Others are only retried when the request
+  // carries an Idempotency-Key (default GET, HEAD, OPTIONS, PUT, DELETE).
+  methods?: string[];
+  // Response statuses that are retried; network errors and timeouts always are
+  statuses?: number[];
+};
+
+export type RequestPolicy = {
+  // Milliseconds an attempt may take, body included, before it fails with
+  // a RequestTimeoutError
+  timeout?: number;
+  // Retry failed attempts; a number is shorthand for { retries }
+  retry?: number | RetryOptions | false;
+};
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+// Methods that may be repeated without changing the result
+export const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+const RETRY_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+export class RequestTimeoutError extends Error {
+  readonly timeout: number;
+
+  constructor(timeout: number) {
+    super(`Request timed out after ${timeout}ms`);
+    this.name = "RequestTimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+// Retry settings for a request, or undefined when it mustn't be retried
+function resolveRetry(policy: RequestPolicy, init: RequestInit) {
+  if (policy.retry === undefined || policy.retry === false) return undefined;
+
+  const {
+    retries = 2,
+    delay = 300,
+    maxDelay = 30_000,
+    methods = IDEMPOTENT_METHODS,
+    statuses = RETRY_STATUSES,
+  } =
+    typeof policy.retry === "number" ? { retries: policy.retry } : policy.retry;
+
+  const method = (init.method ?? "GET").toUpperCase();
+  const idempotent =
+    methods.includes(method) ||
+    new Headers(init.headers).has(IDEMPOTENCY_KEY_HEADER);
+  return idempotent && retries > 0
+    ? { retries, delay, maxDelay, statuses }
+    : undefined;
+}
+
+// Retry-After as milliseconds, given in seconds or as an HTTP date
+function retryAfter(res: Response) {
+  const value = res.headers.get("Retry-After");
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// A 409 from a route with `.idempotency()` while the first request with the
+// key is still running; retrying gets its response once it's done
+async function isIdempotencyConflict(res: Response, init: RequestInit) {
+  if (
+    res.status !== 409 ||
+    !new Headers(init.headers).has(IDEMPOTENCY_KEY_HEADER)
+  ) {
+    return false;
+  }
+  const body = await res
+    .clone()
+    .json()
+    .catch(() => undefined);
+  return body?.code === "IDEMPOTENCY_CONFLICT";
+}
+
+// One signal aborted by any of `signals`. AbortSignal.any is left out when
+// there's a single signal, since older browsers don't have it.
+export function combineSignals(
+  signals: (AbortSignal | null | undefined)[]
+): AbortSignal | undefined {
+  const given = signals.filter((signal): signal is AbortSignal => !!signal);
+  return given.length > 1 ? AbortSignal.any(given) : given[0];
+}
+
+function sleep(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Send a request with a per-attempt timeout, retrying network errors,
+// timeouts and retryable statuses with exponential backoff. `read` consumes
+// the response within the attempt, so a slow body counts toward the timeout.
+export async function fetchWithPolicy<T>(
+  url: string,
+  init: RequestInit,
+  policy: RequestPolicy,
+  fetchImpl: typeof fetch,
+  read: (res: Response) => Promise<T>
+): Promise<T> {
+  const retry = resolveRetry(policy, init);
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = !!retry && attempt < retry.retries;
+    const backoff = () =>
+      retry
+        ? Math.random() * Math.min(retry.maxDelay, retry.delay * 2 ** attempt)
+        : 0;
+
+    const timeoutSignal =
+      policy.timeout !== undefined
+        ? AbortSignal.timeout(policy.timeout)
+        : undefined;
+    const signal = combineSignals([init.signal, timeoutSignal]);
+
+    // Aborts by the caller are final; timeouts and dropped connections
+    // may be retried
+    const toFailure = (error: unknown) => {
+      if (init.signal?.aborted) throw init.signal.reason ?? error;
+      return timeoutSignal?.aborted
+        ? new RequestTimeoutError(policy.timeout!)
+        : error;
+    };
+
+    let res: Response;
+    try {
+      res = await fetchImpl(url, { ...init, signal });
+    } catch (error) {
+      const failure = toFailure(error);
+      if (!canRetry) throw failure;
+      await sleep(backoff(), init.signal);
+      continue;
+    }
+
+    if (
+      canRetry &&
+      (retry.statuses.includes(res.status) ||
+        (await isIdempotencyConflict(res, init)))
+    ) {
+      const wait = retryAfter(res) ?? backoff();
+      await res.body?.cancel().catch(() => undefined);
+      await sleep(Math.min(wait, retry.maxDelay), init.signal);
+      continue;
+    }
+
+    try {
+      return await read(res);
+    } catch (error) {
+      // Only a body cut off by the timeout is retried, not a failed response
+      if (!timeoutSignal?.aborted && !init.signal?.aborted) throw error;
+      const failure = toFailure(error);
+      if (!canRetry) throw failure;
+      await sleep(backoff(), init.signal);
+    }
+  }
+}
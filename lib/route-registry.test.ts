@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, it, mock } from "node:test";
+import {
+  checkRegistry,
+  collectRoutes,
+  generateRegistry,
+  segmentsToPath,
+  watchRegistry,
+} from "./route-registry";
+
+const SCRIPT = path.resolve(__dirname, "../scripts/generate-routes.ts");
+
+// A project directory with these route.ts files under src/app
+function project(routes: Record<string, string> = {}) {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "routes-"));
+  fs.mkdirSync(path.join(cwd, "src/app"), { recursive: true });
+  for (const [dir, source] of Object.entries(routes)) {
+    const file = path.join(cwd, "src/app", dir, "route.ts");
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, source);
+  }
+  return cwd;
+}
+
+const handler = "export const GET = () => Response.json({});\n";
+
+describe("route paths", () => {
+  it("maps folders to URL paths", () => {
+    assert.equal(segmentsToPath(["api", "users", "[id]"]), "/api/users/[id]");
+    assert.equal(
+      segmentsToPath(["api", "docs", "[[...slug]]"]),
+      "/api/docs/[[...slug]]"
+    );
+  });
+
+  it("leaves route groups and slots out of the path", () => {
+    assert.equal(
+      segmentsToPath(["api", "(admin)", "@modal", "stats"]),
+      "/api/stats"
+    );
+  });
+
+  it("skips private folders", () => {
+    assert.equal(segmentsToPath(["api", "_internal", "jobs"]), null);
+  });
+});
+
+describe("route scanning", () => {
+  const dirs: string[] = [];
+  const scan = (routes: Record<string, string>) => {
+    const cwd = project(routes);
+    dirs.push(cwd);
+    return collectRoutes({ appDir: path.join(cwd, "src/app") });
+  };
+
+  afterEach(() => {
+    dirs.splice(0).forEach((dir) => fs.rmSync(dir, { recursive: true }));
+    mock.restoreAll();
+  });
+
+  it("collects the routes under the api directory", () => {
+    const routes = scan({
+      "api/users": handler,
+      "api/users/[id]": handler,
+      "api/(admin)/stats": handler,
+      "api/_internal/jobs": handler,
+      "api/docs/[[...slug]]": handler,
+      "api/files/[...path]": handler,
+      dashboard: handler,
+    });
+
+    assert.deepEqual(
+      routes.map(({ path, importName }) => ({ path, importName })),
+      [
+        {
+          path: "/api/docs/[[...slug]]",
+          importName: "apiDocsSlugOptionalCatchAll",
+        },
+        { path: "/api/files/[...path]", importName: "apiFilesPathCatchAll" },
+        { path: "/api/stats", importName: "apiStats" },
+        { path: "/api/users", importName: "apiUsers" },
+        { path: "/api/users/[id]", importName: "apiUsersId" },
+      ]
+    );
+  });
+
+  it("rejects two folders served at one path", () => {
+    assert.throws(
+      () => scan({ "api/users": handler, "api/(admin)/users": handler }),
+      /Conflicting routes for \/api\/users/
+    );
+  });
+
+  it("rejects a route declared at another path", () => {
+    assert.throws(
+      () =>
+        scan({ "api/users/[id]": "createApiHandler.route('/api/user/[id]')" }),
+      /declares route \/api\/user\/\[id\] but is served at \/api\/users\/\[id\]/
+    );
+  });
+
+  it("finds no routes without an api directory", () => {
+    assert.deepEqual(scan({}), []);
+  });
+
+  it("generates without watching an api directory that isn't there", () => {
+    const warned = mock.method(console, "warn", () => undefined);
+    const cwd = project();
+    dirs.push(cwd);
+    const appDir = path.join(cwd, "src/app");
+    const outFile = path.join(cwd, "src/api-routes.generated.ts");
+
+    const stop = watchRegistry({ appDir, outFile });
+    stop();
+
+    assert.equal(warned.mock.callCount(), 1);
+    assert.ok(fs.existsSync(outFile));
+  });
+
+  it("writes the registry and tells when it's out of date", () => {
+    const cwd = project({ "api/users": handler });
+    dirs.push(cwd);
+    const options = {
+      appDir: path.join(cwd, "src/app"),
+      outFile: path.join(cwd, "src/api-routes.generated.ts"),
+    };
+
+    assert.equal(checkRegistry(options), false);
+    assert.equal(generateRegistry(options), true);
+    assert.equal(generateRegistry(options), false);
+    assert.equal(checkRegistry(options), true);
+    assert.match(
+      fs.readFileSync(options.outFile, "utf8"),
+      /'\/api\/users': ExtractHandlers<typeof apiUsers>;/
+    );
+  });
+});
+
+describe("generate-routes script", () => {
+  // Run with this process's tsx loader, in `cwd`
+  const run = (cwd: string, ...args: string[]) =>
+    execFileSync(process.execPath, [...process.execArgv, SCRIPT, ...args], {
+      cwd,
+      encoding: "utf8",
+      stdio: "pipe",
+    });
+
+  it("generates the registry, then checks it", () => {
+    const cwd = project({ "api/users": handler });
+    try {
+      assert.throws(() => run(cwd, "--check"), { status: 1 });
+      assert.match(run(cwd), /Generated src\/api-routes.generated.ts/);
+      assert.match(run(cwd, "--check"), /is up to date/);
+    } finally {
+      fs.rmSync(cwd, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,255 @@
+import fs from "node:fs";
+import path from "node:path";
+
+export type RouteRegistryOptions = {
+  // Next.js app directory the URL paths are resolved against
+  appDir?: string;
+  // Directory scanned for route.ts files, relative to appDir
+  apiDir?: string;
+  // Generated file holding the ApiRoutes type map
+  outFile?: string;
+  // Directory containing api-builder.ts
+  libDir?: string;
+};
+
+export type RouteEntry = {
+  // URL path as used by the typed client, e.g. "/api/users/[id]"
+  path: string;
+  // route.ts file, relative to appDir
+  file: string;
+  // Identifier used for the type-only import
+  importName: string;
+};
+
+const ROUTE_FILE = "route.ts";
+
+export function resolveRegistryOptions(
+  options: RouteRegistryOptions = {},
+  cwd = process.cwd()
+) {
+  return {
+    appDir: path.resolve(cwd, options.appDir ?? "src/app"),
+    apiDir: options.apiDir ?? "api",
+    outFile: path.resolve(cwd, options.outFile ?? "src/api-routes.generated.ts"),
+    libDir: path.resolve(cwd, options.libDir ?? "lib"),
+  };
+}
+
+// Turn the folder segments of a route.ts file into a URL path
+export function segmentsToPath(segments: string[]): string | null {
+  const urlSegments: string[] = [];
+
+  for (const segment of segments) {
+    // Private folders are excluded from routing
+    if (segment.startsWith("_")) return null;
+    // Route groups and parallel route slots don't affect the URL
+    if (/^\(.+\)$/.test(segment) || segment.startsWith("@")) continue;
+    urlSegments.push(segment);
+  }
+
+  return "/" + urlSegments.join("/");
+}
+
+function toIdentifierPart(segment: string) {
+  const optionalCatchAll = /^\[\[\.\.\.(.+)\]\]$/.exec(segment);
+  const catchAll = /^\[\.\.\.(.+)\]$/.exec(segment);
+  const dynamic = /^\[(.+)\]$/.exec(segment);
+
+  const name = optionalCatchAll
+    ? `${optionalCatchAll[1]}-optional-catch-all`
+    : catchAll
+    ? `${catchAll[1]}-catch-all`
+    : dynamic
+    ? dynamic[1]
+    : segment;
+
+  return name
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+}
+
+function toImportName(routePath: string, taken: Set<string>) {
+  const parts = routePath.split("/").filter(Boolean).map(toIdentifierPart);
+  const base = parts.length
+    ? parts[0][0].toLowerCase() + parts.join("").slice(1)
+    : "root";
+  const safeBase = /^[0-9]/.test(base) ? `_${base}` : base;
+
+  let name = safeBase;
+  for (let i = 2; taken.has(name); i++) {
+    name = `${safeBase}${i}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+function findRouteFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findRouteFiles(fullPath);
+    return entry.name === ROUTE_FILE ? [fullPath] : [];
+  });
+}
+
+// Scan the api directory for route.ts files and map them to URL paths
+export function collectRoutes(options: RouteRegistryOptions = {}): RouteEntry[] {
+  const { appDir, apiDir } = resolveRegistryOptions(options);
+  const files = findRouteFiles(path.join(appDir, apiDir));
+
+  const routes = files
+    .map((file) => {
+      const relativeFile = path.relative(appDir, file).split(path.sep).join("/");
+      const segments = relativeFile.split("/").slice(0, -1);
+      return { path: segmentsToPath(segments), file: relativeFile };
+    })
+    .filter((route): route is { path: string; file: string } => !!route.path)
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const seen = new Map<string, string>();
+  for (const route of routes) {
+    const existing = seen.get(route.path);
+    if (existing) {
+      throw new Error(
+        `Conflicting routes for ${route.path}: ${existing} and ${route.file}`
+      );
+    }
+    seen.set(route.path, route.file);
+  }
+
+  // A path declared with createApiHandler.route() must match the folder
+  for (const route of routes) {
+    const source = fs.readFileSync(path.join(appDir, route.file), "utf8");
+    const declared = /\.route\(\s*["'`]([^"'`]+)["'`]/.exec(source)?.[1];
+    if (declared && declared !== route.path) {
+      throw new Error(
+        `${route.file} declares route ${declared} but is served at ${route.path}`
+      );
+    }
+  }
+
+  const taken = new Set<string>();
+  return routes.map((route) => ({
+    ...route,
+    importName: toImportName(route.path, taken),
+  }));
+}
+
+// Module specifier for `target` as imported from `fromFile`
+function relativeImport(fromFile: string, target: string) {
+  const relative = path
+    .relative(path.dirname(fromFile), target.replace(/\.ts$/, ""))
+    .split(path.sep)
+    .join("/");
+  return relative.startsWith(".") ? relative : `./${relative}`;
+}
+
+// Render the generated ApiRoutes module
+export function renderRegistry(
+  routes: RouteEntry[],
+  options: RouteRegistryOptions = {}
+): string {
+  const { appDir, outFile, libDir } = resolveRegistryOptions(options);
+  const builderImport = relativeImport(outFile, path.join(libDir, "api-builder"));
+
+  return [
+    "// This file is generated by `pnpm routes:generate`. Do not edit it by hand.",
+    `import type { ExtractHandlers } from '${builderImport}';`,
+    "",
+    ...routes.map(
+      (route) =>
+        `import type * as ${route.importName} from '${relativeImport(
+          outFile,
+          path.join(appDir, route.file)
+        )}';`
+    ),
+    "",
+    "export type ApiRoutes = {",
+    ...routes.map(
+      (route) =>
+        `  '${route.path}': ExtractHandlers<typeof ${route.importName}>;`
+    ),
+    "};",
+    "",
+    "// Lazy loaders for server-side tooling, e.g. the OpenAPI exporter",
+    "export const routeModules = {",
+    ...routes.map(
+      (route) =>
+        `  '${route.path}': () => import('${relativeImport(
+          outFile,
+          path.join(appDir, route.file)
+        )}'),`
+    ),
+    "};",
+    "",
+  ].join("\n");
+}
+
+// Write the registry, returning whether the file changed
+export function generateRegistry(options: RouteRegistryOptions = {}) {
+  const { outFile } = resolveRegistryOptions(options);
+  const contents = renderRegistry(collectRoutes(options), options);
+  const current = fs.existsSync(outFile)
+    ? fs.readFileSync(outFile, "utf8")
+    : null;
+
+  if (current === contents) return false;
+  fs.writeFileSync(outFile, contents);
+  return true;
+}
+
+// Compare the committed registry with a freshly generated one
+export function checkRegistry(options: RouteRegistryOptions = {}) {
+  const { outFile } = resolveRegistryOptions(options);
+  const contents = renderRegistry(collectRoutes(options), options);
+  const current = fs.existsSync(outFile)
+    ? fs.readFileSync(outFile, "utf8")
+    : null;
+
+  return current === contents;
+}
+
+// Regenerate the registry whenever a file under the api directory changes
+export function watchRegistry(
+  options: RouteRegistryOptions = {},
+  onGenerate?: (changed: boolean) => void
+) {
+  const { appDir, apiDir } = resolveRegistryOptions(options);
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+
+  const regenerate = () => {
+    try {
+      // Not inside onGenerate?.(), which skips its argument without a callback
+      const changed = generateRegistry(options);
+      onGenerate?.(changed);
+    } catch (error) {
+      console.error("Route registry generation failed:", error);
+    }
+  };
+
+  regenerate();
+  const dir = path.join(appDir, apiDir);
+  // fs.watch throws for a directory that isn't there, e.g. before the first
+  // route is added
+  if (!fs.existsSync(dir)) {
+    console.warn(`Route registry not watched: ${dir} doesn't exist`);
+    return () => undefined;
+  }
+  const watcher = fs.watch(
+    dir,
+    { recursive: true },
+    () => {
+      // Folder renames fire several events at once
+      clearTimeout(timeout);
+      timeout = setTimeout(regenerate, 50);
+    }
+  );
+
+  return () => {
+    clearTimeout(timeout);
+    watcher.close();
+  };
+}
@@ -0,0 +1,139 @@
+import { NextRequest } from "next/server";
+import type { InferInput, InferOutput } from "./api-builder";
+import { isPlainObject } from "./query";
+import {
+  buildRequest,
+  mergeHeaders,
+  parseResponse,
+  parts,
+  resolveRoute,
+  type RouteInput,
+} from "./request";
+
+export type CallerOptions = {
+  // Route pattern of the module, e.g. "/api/users/[id]", used to split
+  // path params from the rest of the input. Defaults to the pattern given
+  // to `createApiHandler.route()`
+  path?: string;
+  // Headers for the synthetic request, e.g. the incoming request's headers
+  // so auth middleware sees the same caller
+  headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+};
+
+export type RouteHandlerFn = ((
+  req: NextRequest,
+  context: { params: Promise<Record<string, any>> }
+) => Promise<Response>) & { __route?: string; __handler?: unknown };
+
+// A route module (or a lazy loader for one) as listed in `routeModules`
+export type RouteModuleSource =
+  | Record<string, unknown>
+  | (() => Promise<Record<string, unknown>>);
+
+export async function loadRouteModule(source: RouteModuleSource) {
+  return typeof source === "function" ? source() : source;
+}
+
+// Methods of a route module created with createApiHandler
+type Caller<TModule> = {
+  [M in keyof TModule as TModule[M] extends { __handler: any }
+    ? M
+    : never]: (
+    input?: InferInput<TModule[M]>
+  ) => Promise<InferOutput<TModule[M]>>;
+};
+
+// Run a route handler on a synthetic request, returning its raw Response
+export async function dispatchRoute(
+  routeHandler: RouteHandlerFn,
+  method: string,
+  input: unknown,
+  options: CallerOptions
+) {
+  const path = options.path ?? routeHandler.__route ?? "/";
+  // The handler says whether it takes parts, so callers on the server and
+  // batched calls needn't mark their input with `parts()`
+  const handler = routeHandler.__handler as { parts?: unknown } | undefined;
+  const routeInput =
+    handler?.parts && isPlainObject(input) ? parts(input) : input;
+  const { url, init } = buildRequest(path, method, routeInput);
+  const { params } = resolveRoute(path, routeInput);
+  // Headers from a structured input win over the caller's
+  const headers = mergeHeaders(
+    typeof options.headers === "function"
+      ? await options.headers()
+      : options.headers,
+    init.headers
+  );
+  // Form data brings its own multipart boundary
+  if (init.body instanceof FormData) {
+    headers.delete("content-type");
+  }
+
+  // The request never leaves the process; the origin only has to parse
+  const req = new NextRequest(new URL(url, "http://localhost"), {
+    method: init.method,
+    body: init.body,
+    headers,
+  });
+
+  return routeHandler(req, { params: Promise.resolve(params) });
+}
+
+async function invoke(
+  routeHandler: RouteHandlerFn,
+  method: string,
+  input: unknown,
+  options: CallerOptions
+) {
+  return parseResponse(
+    await dispatchRoute(routeHandler, method, input, options)
+  );
+}
+
+// Call a route module's handlers in-process, through the same middleware,
+// validation and error handling as an HTTP request
+export function createCaller<TModule extends Record<string, any>>(
+  routeModule: TModule,
+  options: CallerOptions = {}
+): Caller<TModule> {
+  const caller: Record<string, (input?: unknown) => Promise<unknown>> = {};
+
+  for (const [method, routeHandler] of Object.entries(routeModule)) {
+    if (typeof routeHandler === "function" && "__handler" in routeHandler) {
+      caller[method] = (input) =>
+        invoke(routeHandler as RouteHandlerFn, method, input, options);
+    }
+  }
+
+  return caller as Caller<TModule>;
+}
+
+// Registry-wide variant keyed by route path, using the lazy `routeModules`
+// from the generated registry
+export function createServerCaller<TRoutes extends Record<string, any>>(
+  routeModules: { [K in keyof TRoutes]: () => Promise<Record<string, any>> },
+  options: Omit<CallerOptions, "path"> = {}
+) {
+  return {
+    call: async <
+      TRoute extends keyof TRoutes,
+      TMethod extends keyof TRoutes[TRoute] & string
+    >(
+      route: TRoute,
+      method: TMethod,
+      input?: RouteInput<TRoutes, TRoute, TMethod>
+    ): Promise<InferOutput<TRoutes[TRoute][TMethod]>> => {
+      const routeModule = await routeModules[route]();
+      const routeHandler = routeModule[method];
+      if (typeof routeHandler !== "function") {
+        throw new Error(`${method} ${String(route)} is not defined`);
+      }
+
+      return invoke(routeHandler, method, input, {
+        ...options,
+        path: String(route),
+      });
+    },
+  };
+}
@@ -0,0 +1,248 @@
+import { errorFromResponse, type ApiError } from "./api-error";
+import { REQUEST_ID_HEADER } from "./observability";
+import { parseJson } from "./query";
+import {
+  TRANSFORMER_HEADER,
+  findTransformer,
+  type DataTransformer,
+} from "./transformer";
+
+// What a handler can return to stream its response chunk by chunk
+export type StreamSource<T = unknown> = AsyncIterable<T> | ReadableStream<T>;
+
+// Chunk type of a streamed handler output, e.g. the generator's yield type
+export type StreamChunk<TOutput> = TOutput extends AsyncIterable<infer C>
+  ? C
+  : TOutput extends ReadableStream<infer C>
+  ? C
+  : never;
+
+// "ndjson" sends one JSON object per line; "sse" sends server-sent events
+export type StreamFormat = "ndjson" | "sse";
+
+export const NDJSON_CONTENT_TYPE = "application/x-ndjson";
+export const SSE_CONTENT_TYPE = "text/event-stream";
+
+export function isStreamSource(value: unknown): value is StreamSource {
+  return (
+    value instanceof ReadableStream ||
+    (typeof value === "object" &&
+      value !== null &&
+      Symbol.asyncIterator in value)
+  );
+}
+
+// ReadableStream isn't typed as async iterable everywhere, so read it by hand
+function toAsyncIterator<T>(source: StreamSource<T>): AsyncIterator<T> {
+  if (!(source instanceof ReadableStream)) {
+    return source[Symbol.asyncIterator]();
+  }
+
+  const reader = source.getReader();
+  return {
+    next: async () => {
+      const { value, done } = await reader.read();
+      return done ? { value: undefined, done: true } : { value, done: false };
+    },
+    return: async () => {
+      await reader.cancel();
+      return { value: undefined, done: true };
+    },
+  };
+}
+
+// Streams the client asks for by Accept header, NDJSON unless it wants SSE
+export function negotiateStreamFormat(req: Request): StreamFormat {
+  return req.headers.get("accept")?.includes(SSE_CONTENT_TYPE) ? "sse" : "ndjson";
+}
+
+type StreamEvent =
+  | { type: "data"; id: number; data: unknown }
+  | { type: "error"; status: number; error: unknown }
+  | { type: "end" };
+
+function encodeEvent(format: StreamFormat, event: StreamEvent) {
+  if (format === "ndjson") {
+    const { type, ...line } = event;
+    return `${JSON.stringify(type === "end" ? { end: true } : line)}\n`;
+  }
+
+  switch (event.type) {
+    case "data":
+      return `id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`;
+    case "error":
+      return `event: error\ndata: ${JSON.stringify({
+        status: event.status,
+        error: event.error,
+      })}\n\n`;
+    case "end":
+      return "event: end\ndata:\n\n";
+  }
+}
+
+export type StreamResponseOptions = {
+  format: StreamFormat;
+  // Last event id the client saw, so ids continue after a reconnect
+  lastEventId?: number;
+  // Applied to every chunk before it's sent, e.g. output validation
+  mapChunk?: (chunk: unknown) => unknown;
+  // Turns an error thrown mid-stream into the error sent to the client
+  mapError: (error: unknown) => ApiError;
+};
+
+// Id of the last chunk a reconnecting client received, from Last-Event-ID
+export function readLastEventId(req: Request) {
+  const id = Number(req.headers.get("last-event-id") ?? NaN);
+  return Number.isInteger(id) && id >= 0 ? id : undefined;
+}
+
+// Send a handler's stream as NDJSON or SSE. Every chunk carries an id, and
+// the stream closes with an explicit end (or error) event so clients can
+// tell a finished stream from a dropped connection.
+export function toStreamResponse(
+  source: StreamSource,
+  options: StreamResponseOptions
+) {
+  const iterator = toAsyncIterator(source);
+  const encoder = new TextEncoder();
+  let id = options.lastEventId !== undefined ? options.lastEventId + 1 : 0;
+
+  const send = (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    event: StreamEvent
+  ) => controller.enqueue(encoder.encode(encodeEvent(options.format, event)));
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          send(controller, { type: "end" });
+          controller.close();
+          return;
+        }
+        const data = options.mapChunk ? options.mapChunk(value) : value;
+        send(controller, { type: "data", id: id++, data });
+      } catch (error) {
+        const apiError = options.mapError(error);
+        send(controller, {
+          type: "error",
+          status: apiError.status,
+          error: apiError.toJSON(),
+        });
+        controller.close();
+      }
+    },
+    // The client went away; stop the generator so it can clean up
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type":
+        options.format === "sse" ? SSE_CONTENT_TYPE : NDJSON_CONTENT_TYPE,
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
+
+// Thrown when a stream ends without its end event, e.g. a dropped connection
+export class StreamDisconnectedError extends Error {
+  constructor() {
+    super("Stream disconnected");
+    this.name = "StreamDisconnectedError";
+  }
+}
+
+// Split the body into NDJSON lines or SSE event blocks
+async function* readBlocks(body: ReadableStream<Uint8Array>, separator: string) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value.replace(/\r\n/g, "\n");
+
+      let index: number;
+      while ((index = buffer.indexOf(separator)) !== -1) {
+        const block = buffer.slice(0, index);
+        buffer = buffer.slice(index + separator.length);
+        if (block.trim()) yield block;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseSseBlock(block: string): StreamEvent {
+  let event = "message";
+  let id = "";
+  const data: string[] = [];
+
+  for (const line of block.split("\n")) {
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+    if (field === "event") event = value;
+    else if (field === "id") id = value;
+    else if (field === "data") data.push(value);
+  }
+
+  if (event === "end") return { type: "end" };
+  if (event === "error") {
+    const { status, error } = parseJson(data.join("\n"));
+    return { type: "error", status, error };
+  }
+  return { type: "data", id: Number(id), data: parseJson(data.join("\n")) };
+}
+
+function parseNdjsonLine(line: string): StreamEvent {
+  const event = JSON.parse(line);
+  if (event.end) return { type: "end" };
+  if ("error" in event) {
+    return { type: "error", status: event.status, error: event.error };
+  }
+  return { type: "data", id: event.id, data: event.data };
+}
+
+// Read a streamed response, yielding chunks with their event ids. Errors
+// sent by the handler are thrown as ApiErrors; a stream that stops without
+// its end event throws StreamDisconnectedError.
+export async function* readStream<TChunk>(
+  res: Response,
+  transformer?: DataTransformer
+): AsyncGenerator<{ id: number; data: TChunk }> {
+  const requestId = res.headers.get(REQUEST_ID_HEADER);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({ error: "Network error" }));
+    throw errorFromResponse(res.status, body, requestId);
+  }
+  if (!res.body) throw new StreamDisconnectedError();
+
+  const isSse = res.headers.get("Content-Type")?.includes(SSE_CONTENT_TYPE);
+  const chunkTransformer = findTransformer(
+    res.headers.get(TRANSFORMER_HEADER),
+    transformer
+  );
+  const blocks = readBlocks(res.body, isSse ? "\n\n" : "\n");
+
+  for await (const block of blocks) {
+    const event = isSse ? parseSseBlock(block) : parseNdjsonLine(block);
+    if (event.type === "end") return;
+    if (event.type === "error") {
+      throw errorFromResponse(event.status, event.error, requestId);
+    }
+    const data = chunkTransformer
+      ? chunkTransformer.deserialize(event.data)
+      : event.data;
+    yield { id: event.id, data: data as TChunk };
+  }
+
+  throw new StreamDisconnectedError();
+}
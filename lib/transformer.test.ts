@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  findTransformer,
+  jsonTransformer,
+  richTransformer,
+  type DataTransformer,
+} from "./transformer";
+
+// Serialized, sent as JSON text and deserialized, like a response
+function roundTrip(value: unknown) {
+  const wire = JSON.stringify(richTransformer.serialize(value));
+  return richTransformer.deserialize(JSON.parse(wire));
+}
+
+describe("rich transformer", () => {
+  it("round-trips Dates, Maps, Sets, BigInts and undefined", () => {
+    const value = {
+      createdAt: new Date("2024-01-02T03:04:05.000Z"),
+      roles: new Map([["admin", new Set(["read", "write"])]]),
+      balance: BigInt("12345678901234567890"),
+      nickname: undefined,
+      ratio: Infinity,
+      tags: [new Date(0), undefined],
+    };
+
+    assert.deepEqual(roundTrip(value), value);
+  });
+
+  it("tags values with $type", () => {
+    assert.deepEqual(
+      richTransformer.serialize({
+        at: new Date(0),
+        ids: new Set([1]),
+        big: BigInt(1),
+        none: undefined,
+      }),
+      {
+        at: { $type: "date", value: "1970-01-01T00:00:00.000Z" },
+        ids: { $type: "set", value: [1] },
+        big: { $type: "bigint", value: "1" },
+        none: { $type: "undefined" },
+      }
+    );
+  });
+
+  it("keeps objects with their own $type key as they are", () => {
+    const value = { $type: "date", value: "not a date" };
+
+    assert.deepEqual(roundTrip(value), value);
+  });
+
+  it("keeps Map keys that are objects", () => {
+    const value = new Map([[{ id: 1 }, new Date(0)]]);
+
+    assert.deepEqual(roundTrip(value), value);
+  });
+});
+
+describe("finding transformers", () => {
+  const custom: DataTransformer = { ...jsonTransformer, name: "custom" };
+
+  it("finds none for plain JSON", () => {
+    assert.equal(findTransformer(null), undefined);
+    assert.equal(findTransformer("json"), undefined);
+  });
+
+  it("finds the rich transformer and the caller's own", () => {
+    assert.equal(findTransformer("rich"), richTransformer);
+    assert.equal(findTransformer("custom", custom), custom);
+  });
+
+  it("throws for a name it doesn't know", () => {
+    assert.throws(
+      () => findTransformer("made-up", custom),
+      /Unknown data transformer "made-up"/
+    );
+  });
+});
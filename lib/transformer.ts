@@ -0,0 +1,128 @@
+import { isPlainObject } from "./query";
+
+// Converts values to and from what travels as JSON. The name is sent in
+// the X-Data-Transformer header so the other side knows how to decode.
+export type DataTransformer<TWire extends WireFormat = WireFormat> = {
+  name: string;
+  // "rich" transformers round-trip Dates, BigInts, Maps, Sets and undefined;
+  // "json" ones behave like JSON.stringify. Used for the inferred types.
+  wire: TWire;
+  serialize: (value: unknown) => unknown;
+  deserialize: (json: unknown) => unknown;
+};
+
+export type WireFormat = "json" | "rich";
+
+export const TRANSFORMER_HEADER = "X-Data-Transformer";
+
+export const jsonTransformer: DataTransformer<"json"> = {
+  name: "json",
+  wire: "json",
+  serialize: (value) => value,
+  deserialize: (json) => json,
+};
+
+// Tagged values are { $type, value }; plain objects that happen to have a
+// $type key are wrapped as "object" so they aren't mistaken for one
+type Tagged = { $type: string; value?: unknown };
+
+function encode(value: unknown): unknown {
+  if (value === undefined) return { $type: "undefined" };
+  if (typeof value === "bigint") return { $type: "bigint", value: String(value) };
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    return { $type: "number", value: String(value) };
+  }
+  if (value instanceof Date) return { $type: "date", value: value.toISOString() };
+  if (value instanceof Map) {
+    return {
+      $type: "map",
+      value: [...value].map(([key, item]) => [encode(key), encode(item)]),
+    };
+  }
+  if (value instanceof Set) return { $type: "set", value: [...value].map(encode) };
+  if (Array.isArray(value)) return value.map(encode);
+
+  if (isPlainObject(value)) {
+    const object = Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, encode(item)])
+    );
+    return "$type" in value ? { $type: "object", value: object } : object;
+  }
+
+  // Class instances fall back to their JSON form, e.g. via toJSON()
+  return value;
+}
+
+function decode(json: unknown): unknown {
+  if (Array.isArray(json)) return json.map(decode);
+  if (!isPlainObject(json)) return json;
+
+  if (typeof json.$type === "string") {
+    const { $type, value } = json as Tagged;
+    switch ($type) {
+      case "undefined":
+        return undefined;
+      case "bigint":
+        return BigInt(value as string);
+      case "number":
+        return Number(value);
+      case "date":
+        return new Date(value as string);
+      case "map":
+        return new Map(
+          (value as [unknown, unknown][]).map(([key, item]) => [
+            decode(key),
+            decode(item),
+          ])
+        );
+      case "set":
+        return new Set((value as unknown[]).map(decode));
+      case "object":
+        return decodeObject(value as Record<string, unknown>);
+    }
+  }
+
+  return decodeObject(json);
+}
+
+function decodeObject(object: Record<string, unknown>) {
+  return Object.fromEntries(
+    Object.entries(object).map(([key, item]) => [key, decode(item)])
+  );
+}
+
+export const richTransformer: DataTransformer<"rich"> = {
+  name: "rich",
+  wire: "rich",
+  serialize: encode,
+  deserialize: decode,
+};
+
+// Transformer named by a message's header, if it isn't plain JSON
+export function findTransformer(
+  name: string | null,
+  custom?: DataTransformer
+): DataTransformer | undefined {
+  if (!name || name === jsonTransformer.name) return undefined;
+  if (custom?.name === name) return custom;
+  if (name === richTransformer.name) return richTransformer;
+  throw new Error(`Unknown data transformer "${name}"`);
+}
+
+// What a value looks like after a JSON round trip: Dates become strings,
+// functions and undefined drop out, Maps and Sets become empty objects
+export type Jsonify<T> = 0 extends 1 & T
+  ? any
+  : T extends string | number | boolean | null | undefined
+  ? T
+  : T extends bigint | symbol | ((...args: any[]) => any)
+  ? never
+  : T extends { toJSON(): infer J }
+  ? Jsonify<J>
+  : T extends Map<any, any> | Set<any>
+  ? {}
+  : { [K in keyof T]: Jsonify<T[K]> };
+
+export type WireValue<T, TWire extends WireFormat> = TWire extends "rich"
+  ? T
+  : Jsonify<T>;
@@ -1,169 +1,651 @@
-import useSWR, { mutate } from "swr";
-import { useCallback } from "react";
-import type { ExtractHandlers, InferInput, InferOutput } from "./api-builder";
-
-async function fetcher(url: string, options?: RequestInit) {
-  const res = await fetch(url, {
-    headers: {
-      "Content-Type": "application/json",
-      ...options?.headers,
-    },
-    ...options,
-  });
+import useSWR, {
+  mutate,
+  useSWRConfig,
+  type SWRConfiguration,
+  type ScopedMutator,
+} from "swr";
+import useSWRInfinite, { unstable_serialize } from "swr/infinite";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { InferChunk, InferError, InferOutput } from "./api-builder";
+import { ApiError } from "./api-error";
+import { createBatchLink, type BatchLinkOptions } from "./batch-link";
+import { combineSignals, type RequestPolicy } from "./retry";
+import {
+  buildRequest,
+  createEtagCache,
+  fetcher,
+  fetchResponse,
+  fetchStream,
+  interceptFetch,
+  mergeHeaders,
+  mergeInput,
+  reportErrors,
+  resolveRoute,
+  withBaseUrl,
+  withCallOptions,
+  type ApiResponse,
+  type CallOptions,
+  type ClientOptions,
+  type InputArgs,
+  type PartialRouteInput,
+  type RouteCall,
+  type RouteInput,
+  type RouteInputFilter,
+  type RoutesWithMethod,
+} from "./request";
+import {
+  invalidateQueries,
+  keyToRequest,
+  matchesKey,
+  paramsForRoute,
+  queryKey,
+  registerInfiniteQuery,
+  type QueryKey,
+} from "./query-cache";
+
+// Returns the input overrides for the page after `lastPage`, e.g. an offset
+// or cursor, or null/undefined when there are no more pages
+type GetNextPageParam<TOutput, TPageParam> = (
+  lastPage: TOutput,
+  context: { pageIndex: number; pageParam: TPageParam | undefined }
+) => TPageParam | null | undefined;
+
+// Output of a route's GET handler, i.e. what its queries cache
+type QueryData<TRoutes, TRoute extends keyof TRoutes> = "GET" extends keyof TRoutes[TRoute]
+  ? InferOutput<TRoutes[TRoute]["GET"]>
+  : never;
+
+type StreamStatus =
+  | "idle"
+  | "connecting"
+  | "streaming"
+  | "reconnecting"
+  | "done"
+  | "error";
+
+type ReconnectOptions = {
+  // Attempts after a dropped connection before giving up (default 3)
+  retries?: number;
+  // Delay before the first retry, doubled on every attempt (default 1000ms)
+  delay?: number;
+};
+
+type Updater<TData> =
+  | TData
+  | ((current: TData | undefined) => TData | undefined);
 
-  if (!res.ok) {
-    const error = await res.json().catch(() => ({ error: "Network error" }));
-    throw new Error(error.error || "Request failed");
-  }
+// Routes whose queries a mutation revalidates once it succeeds, by route and
+// method, e.g. { "/api/users/[id]": { PUT: ["/api/users/[id]", "/api/users"] } }
+export type InvalidationRules<TRoutes> = {
+  [R in keyof TRoutes]?: {
+    [M in Exclude<keyof TRoutes[R], "GET">]?: readonly (keyof TRoutes)[];
+  };
+};
+
+// Request options shared with createRequestClient; `timeout` and `retry`
+// apply to every query and mutation unless the hook or call overrides them
+export type TypedClientOptions<TRoutes> = ClientOptions<TRoutes> & {
+  // Without a rule a mutation revalidates its own route
+  invalidates?: InvalidationRules<TRoutes>;
+  // Send queries made in the same tick as one request to a batch route
+  batch?: BatchLinkOptions;
+  // Defaults for every query, e.g. { dedupingInterval: 5000 }. Hook options
+  // and an enclosing <SWRConfig> take precedence.
+  swr?: Omit<SWRConfiguration, "fetcher" | "provider">;
+};
 
-  return res.json();
+// SWR treats a present-but-undefined option as set, so drop those to let
+// client defaults and <SWRConfig> apply
+function definedOptions<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
 }
 
-export function createClient<TRoutes extends Record<string, any>>() {
+export function createClient<TRoutes extends Record<string, any>>(
+  clientOptions: TypedClientOptions<TRoutes> = {}
+) {
+  const { transformer, timeout, retry, baseUrl } = clientOptions;
+  const batchLink =
+    clientOptions.batch &&
+    createBatchLink({
+      transformer,
+      timeout,
+      retry,
+      ...clientOptions.batch,
+      url: withBaseUrl(baseUrl, clientOptions.batch.url),
+      // Interceptors see the batch as a single POST to its URL
+      fetch: interceptFetch(
+        {
+          ...clientOptions,
+          fetch: clientOptions.batch.fetch ?? clientOptions.fetch,
+        },
+        { route: clientOptions.batch.url, method: "POST" } as RouteCall<TRoutes>
+      ),
+    });
+
+  const etags = createEtagCache();
+
+  // Batched queries share one request, so only the client's policy applies
+  const fetchQuery = (key: QueryKey, policy: RequestPolicy = {}) => {
+    const [route, method] = key;
+    const { input, url, init } = keyToRequest(key);
+    const call = { route, method, input } as RouteCall<TRoutes>;
+
+    return reportErrors(
+      clientOptions,
+      call,
+      batchLink
+        ? batchLink.call(route, method, input)
+        : fetcher(
+            withBaseUrl(baseUrl, url),
+            withCallOptions(init, clientOptions, policy),
+            interceptFetch(clientOptions, call),
+            transformer,
+            etags
+          )
+    );
+  };
+
+  // Cache writes against the global SWR cache, or the one of an enclosing
+  // <SWRConfig provider> when bound to its mutate
+  const cacheHelpers = (mutateCache: ScopedMutator) => ({
+    // Write a cached query's data without refetching
+    setQueryData: <TRoute extends RoutesWithMethod<TRoutes, "GET">>(
+      route: TRoute,
+      input: RouteInput<TRoutes, TRoute, "GET">,
+      data: Updater<QueryData<TRoutes, TRoute>>
+    ) =>
+      mutateCache<QueryData<TRoutes, TRoute>>(
+        queryKey(String(route), input),
+        data as any,
+        { revalidate: false }
+      ),
+
+    // Revalidate a route's cached queries, optionally narrowed by input
+    invalidate: <TRoute extends RoutesWithMethod<TRoutes, "GET">>(
+      route: TRoute,
+      input?: RouteInputFilter<TRoutes, TRoute, "GET">
+    ) => {
+      const { params, rest } = resolveRoute(String(route), input);
+      return invalidateQueries(
+        { route: String(route), params, query: rest },
+        mutateCache
+      );
+    },
+  });
+
   return {
     useQuery: <
       TRoute extends keyof TRoutes,
       TMethod extends keyof TRoutes[TRoute] = "GET"
     >(
       route: TRoute,
-      input?: InferInput<TRoutes[TRoute][TMethod]>,
-      options?: {
+      ...[input, options]: InputArgs<
+        RouteInput<TRoutes, TRoute, TMethod>,
+        [
+          options?: RequestPolicy & {
+            enabled?: boolean;
+            refreshInterval?: number;
+            revalidateOnFocus?: boolean;
+            fallbackData?: InferOutput<TRoutes[TRoute][TMethod]>;
+          }
+        ]
+      >
+    ) => {
+      const key =
+        options?.enabled !== false ? queryKey(String(route), input) : null;
+
+      const {
+        data,
+        error,
+        isLoading,
+        mutate: mutateFn,
+      } = useSWR<
+        InferOutput<TRoutes[TRoute][TMethod]>,
+        InferError<TRoutes[TRoute][TMethod]>
+      >(
+        key,
+        (requestKey: QueryKey) =>
+          fetchQuery(requestKey, {
+            timeout: options?.timeout,
+            retry: options?.retry,
+          }),
+        {
+          ...clientOptions.swr,
+          ...definedOptions({
+            refreshInterval: options?.refreshInterval,
+            revalidateOnFocus: options?.revalidateOnFocus,
+            fallbackData: options?.fallbackData,
+          }),
+        }
+      );
+
+      return {
+        data: data as InferOutput<TRoutes[TRoute][TMethod]> | undefined,
+        error,
+        isLoading,
+        refetch: mutateFn,
+      };
+    },
+
+    useInfiniteQuery: <TRoute extends RoutesWithMethod<TRoutes, "GET">>(
+      route: TRoute,
+      input: RouteInput<TRoutes, TRoute, "GET">,
+      options: {
+        getNextPageParam: GetNextPageParam<
+          InferOutput<TRoutes[TRoute]["GET"]>,
+          PartialRouteInput<TRoutes, TRoute, "GET">
+        >;
+        // Overrides for the first page, e.g. { offset: 0 }
+        initialPageParam?: PartialRouteInput<TRoutes, TRoute, "GET">;
         enabled?: boolean;
-        refreshInterval?: number;
         revalidateOnFocus?: boolean;
-        fallbackData?: InferOutput<TRoutes[TRoute][TMethod]>;
       }
     ) => {
-      // Handle dynamic routes by replacing brackets with actual values
-      let finalRoute = String(route);
-      const params: Record<string, any> = {};
-      const queryParams: Record<string, any> = {};
-
-      if (input && typeof input === "object") {
-        for (const [key, value] of Object.entries(input)) {
-          if (finalRoute.includes(`[${key}]`)) {
-            finalRoute = finalRoute.replace(`[${key}]`, String(value));
-            params[key] = value;
-          } else {
-            queryParams[key] = value;
-          }
+      type TOutput = InferOutput<TRoutes[TRoute]["GET"]>;
+      // Page params by page index, so each page knows the one before it
+      const pageParams = useRef<
+        (PartialRouteInput<TRoutes, TRoute, "GET"> | undefined)[]
+      >([]);
+
+      const getKey = (pageIndex: number, previousPageData: TOutput | null) => {
+        if (options.enabled === false) return null;
+
+        let pageParam = options.initialPageParam;
+        if (pageIndex > 0) {
+          if (!previousPageData) return null;
+          const nextParam = options.getNextPageParam(previousPageData, {
+            pageIndex: pageIndex - 1,
+            pageParam: pageParams.current[pageIndex - 1],
+          });
+          if (nextParam == null) return null;
+          pageParam = nextParam;
         }
-      }
 
-      const queryString =
-        Object.keys(queryParams).length > 0
-          ? "?" +
-            new URLSearchParams(
-              queryParams as Record<string, string>
-            ).toString()
-          : "";
+        pageParams.current[pageIndex] = pageParam;
+        return queryKey(String(route), mergeInput(input, pageParam));
+      };
 
-      const key =
-        options?.enabled !== false ? `${finalRoute}${queryString}` : null;
+      // Register the infinite cache entry so invalidation can reach it
+      const firstPage =
+        options.enabled === false
+          ? null
+          : queryKey(
+              String(route),
+              mergeInput(input, options.initialPageParam)
+            );
+      const cacheKey = firstPage && unstable_serialize(() => firstPage);
+      useEffect(
+        () =>
+          cacheKey && firstPage
+            ? registerInfiniteQuery(cacheKey, firstPage)
+            : undefined,
+        // firstPage is derived from the same values as cacheKey
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [cacheKey]
+      );
 
       const {
         data,
         error,
         isLoading,
+        size,
+        setSize,
         mutate: mutateFn,
-      } = useSWR(key, fetcher, {
-        refreshInterval: options?.refreshInterval,
-        revalidateOnFocus: options?.revalidateOnFocus ?? true,
-        fallbackData: options?.fallbackData,
-      });
+      } = useSWRInfinite<TOutput, InferError<TRoutes[TRoute]["GET"]>>(
+        getKey,
+        fetchQuery,
+        {
+          ...clientOptions.swr,
+          ...definedOptions({ revalidateOnFocus: options.revalidateOnFocus }),
+        }
+      );
+
+      const lastIndex = data ? data.length - 1 : -1;
+      const hasNextPage =
+        lastIndex >= 0 &&
+        options.getNextPageParam(data![lastIndex], {
+          pageIndex: lastIndex,
+          pageParam: pageParams.current[lastIndex],
+        }) != null;
+      const isFetchingNextPage =
+        !!data && size > 0 && typeof data[size - 1] === "undefined";
+
+      const fetchNextPage = useCallback(
+        () => setSize((current) => current + 1),
+        [setSize]
+      );
 
       return {
-        data: data as InferOutput<TRoutes[TRoute][TMethod]> | undefined,
+        pages: data,
         error,
         isLoading,
+        hasNextPage,
+        isFetchingNextPage,
+        fetchNextPage,
         refetch: mutateFn,
       };
     },
 
-    useMutation: <
+    useStream: <
       TRoute extends keyof TRoutes,
-      TMethod extends Exclude<keyof TRoutes[TRoute], "GET">
+      TMethod extends keyof TRoutes[TRoute] & string
     >(
       route: TRoute,
-      method: TMethod
+      method: TMethod,
+      ...[input, options]: InputArgs<
+        RouteInput<TRoutes, TRoute, TMethod>,
+        [
+          options?: {
+            enabled?: boolean;
+            // Reconnect dropped connections, sending the last event id as
+            // Last-Event-ID. Only for handlers that resume from their
+            // context's `lastEventId` (default false).
+            reconnect?: boolean | ReconnectOptions;
+            onChunk?: (chunk: InferChunk<TRoutes[TRoute][TMethod]>) => void;
+          }
+        ]
+      >
     ) => {
-      const mutationFn = useCallback(
-        async (input?: InferInput<TRoutes[TRoute][TMethod]>) => {
-          // Handle dynamic routes by replacing brackets with actual values
-          let finalRoute = String(route);
-          const bodyData: Record<string, any> = {};
-
-          if (input && typeof input === "object") {
-            for (const [key, value] of Object.entries(input)) {
-              if (finalRoute.includes(`[${key}]`)) {
-                finalRoute = finalRoute.replace(`[${key}]`, String(value));
-              } else {
-                bodyData[key] = value;
+      type TChunk = InferChunk<TRoutes[TRoute][TMethod]>;
+      type TError = InferError<TRoutes[TRoute][TMethod]>;
+
+      const [state, setState] = useState<{
+        chunks: TChunk[];
+        error: TError | undefined;
+        status: StreamStatus;
+      }>({ chunks: [], error: undefined, status: "idle" });
+      const controllerRef = useRef<AbortController | null>(null);
+      const optionsRef = useRef(options);
+      optionsRef.current = options;
+
+      const { url, init } = buildRequest(
+        String(route),
+        method,
+        input,
+        transformer
+      );
+      const call = { route, method, input } as RouteCall<TRoutes>;
+      // Restart the stream only when the request itself changes
+      const requestKey = `${method} ${url} ${init.body ?? ""}`;
+
+      const start = useCallback(() => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setState({ chunks: [], error: undefined, status: "connecting" });
+
+        const reconnect = optionsRef.current?.reconnect ?? false;
+        const { retries = 3, delay = 1000 } =
+          typeof reconnect === "object" ? reconnect : {};
+        let lastEventId: number | undefined;
+        let attempt = 0;
+
+        const run = async () => {
+          while (!controller.signal.aborted) {
+            try {
+              const headers = mergeHeaders(
+                init.headers,
+                lastEventId !== undefined
+                  ? { "Last-Event-ID": String(lastEventId) }
+                  : {}
+              );
+              for await (const { id, data } of fetchStream<TChunk>(
+                withBaseUrl(baseUrl, url),
+                { ...init, headers, signal: controller.signal },
+                interceptFetch(clientOptions, call),
+                transformer
+              )) {
+                attempt = 0;
+                lastEventId = id;
+                setState((current) => ({
+                  ...current,
+                  status: "streaming",
+                  chunks: [...current.chunks, data],
+                }));
+                optionsRef.current?.onChunk?.(data);
               }
+              setState((current) => ({ ...current, status: "done" }));
+              return;
+            } catch (error) {
+              if (controller.signal.aborted) return;
+
+              // Errors sent by the handler are final; dropped connections retry
+              if (
+                error instanceof ApiError ||
+                reconnect === false ||
+                attempt >= retries
+              ) {
+                setState((current) => ({
+                  ...current,
+                  status: "error",
+                  error: error as TError,
+                }));
+                // Kept in the state rather than rethrown: nothing awaits
+                // the stream, so a rejection would go unhandled
+                await reportErrors(
+                  clientOptions,
+                  call,
+                  Promise.reject(error)
+                ).catch(() => undefined);
+                return;
+              }
+
+              setState((current) => ({ ...current, status: "reconnecting" }));
+              await new Promise((resolve) =>
+                setTimeout(resolve, delay * 2 ** attempt++)
+              );
             }
           }
+        };
 
-          const options: RequestInit = {
-            method: String(method),
-          };
+        void run();
+        // url, init and call are what requestKey is made from
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+      }, [requestKey]);
 
-          if (Object.keys(bodyData).length > 0 && method !== "DELETE") {
-            options.body = JSON.stringify(bodyData);
-          }
+      const abort = useCallback(() => {
+        controllerRef.current?.abort();
+        setState((current) =>
+          current.status === "done" || current.status === "error"
+            ? current
+            : { ...current, status: "idle" }
+        );
+      }, []);
+
+      useEffect(() => {
+        if (options?.enabled === false) return;
+        start();
+        return () => controllerRef.current?.abort();
+      }, [start, options?.enabled]);
+
+      return {
+        chunks: state.chunks,
+        latest: state.chunks[state.chunks.length - 1] as TChunk | undefined,
+        error: state.error,
+        status: state.status,
+        abort,
+        restart: start,
+      };
+    },
+
+    useMutation: <
+      TRoute extends keyof TRoutes,
+      TMethod extends Exclude<keyof TRoutes[TRoute], "GET">
+    >(
+      route: TRoute,
+      method: TMethod,
+      mutationOptions?: RequestPolicy & {
+        // Overrides the client's invalidation rule for this route and method
+        invalidates?: readonly (keyof TRoutes)[];
+        // Cancel mutations still in flight when the component unmounts
+        // (default true)
+        abortOnUnmount?: boolean;
+      }
+    ) => {
+      // Signals the mutations in flight; replaced once they're aborted so
+      // later ones can run
+      const controllerRef = useRef(new AbortController());
+      const abort = useCallback(() => {
+        controllerRef.current.abort();
+        controllerRef.current = new AbortController();
+      }, []);
+
+      // Bound to the cache of the nearest <SWRConfig>, if any
+      const { mutate: mutateCache } = useSWRConfig();
+      const abortOnUnmount = mutationOptions?.abortOnUnmount ?? true;
+      useEffect(
+        () => (abortOnUnmount ? abort : undefined),
+        [abort, abortOnUnmount]
+      );
+
+      const send = useCallback(
+        async (
+          ...[input, callOptions]: InputArgs<
+            RouteInput<TRoutes, TRoute, TMethod>,
+            [options?: CallOptions]
+          >
+        ) => {
+          // Handle dynamic routes by replacing brackets with actual values
+          const { url, init } = buildRequest(
+            String(route),
+            String(method),
+            input,
+            transformer
+          );
+          const call = { route, method, input } as RouteCall<TRoutes>;
 
-          return fetcher(finalRoute, options) as Promise<
-            InferOutput<TRoutes[TRoute][TMethod]>
-          >;
+          return reportErrors(
+            clientOptions,
+            call,
+            fetchResponse(
+              withBaseUrl(baseUrl, url),
+              withCallOptions(
+                init,
+                {
+                  timeout: mutationOptions?.timeout ?? timeout,
+                  retry: mutationOptions?.retry ?? retry,
+                  generateRequestId: clientOptions.generateRequestId,
+                },
+                {
+                  ...callOptions,
+                  signal: combineSignals([
+                    controllerRef.current.signal,
+                    callOptions?.signal,
+                  ]),
+                }
+              ),
+              interceptFetch(clientOptions, call),
+              transformer
+            )
+          ) as Promise<ApiResponse<InferOutput<TRoutes[TRoute][TMethod]>>>;
         },
-        [route, method]
+        [route, method, mutationOptions?.timeout, mutationOptions?.retry]
+      );
+
+      const mutationFn = useCallback(
+        async (
+          ...args: InputArgs<
+            RouteInput<TRoutes, TRoute, TMethod>,
+            [options?: CallOptions]
+          >
+        ) => (await send(...args)).data,
+        [send]
       );
 
+      const [error, setError] = useState<
+        InferError<TRoutes[TRoute][TMethod]> | undefined
+      >(undefined);
+      // Status and headers of the last successful trigger, e.g. a Location
+      const [response, setResponse] = useState<
+        Omit<ApiResponse<unknown>, "data"> | undefined
+      >(undefined);
+
       const trigger = useCallback(
         async (
-          input?: InferInput<TRoutes[TRoute][TMethod]>,
-          options?: {
-            optimisticData?: InferOutput<TRoutes[TRoute][TMethod]>;
-            rollbackOnError?: boolean;
-            revalidate?: boolean;
-          }
+          ...[input, options]: InputArgs<
+            RouteInput<TRoutes, TRoute, TMethod>,
+            [
+              options?: CallOptions & {
+                // Written to the route's cached GET queries for the same
+                // path params until the mutation settles
+                optimisticData?: Updater<QueryData<TRoutes, TRoute>>;
+                rollbackOnError?: boolean;
+                revalidate?: boolean;
+              }
+            ]
+          >
         ) => {
+          setError(undefined);
+          const { params } = resolveRoute(String(route), input);
+          const { signal } = controllerRef.current;
+
           try {
-            if (options?.optimisticData) {
-              await mutate(String(route), options.optimisticData, false);
+            const sent = send(
+              ...([input, options] as InputArgs<
+                RouteInput<TRoutes, TRoute, TMethod>,
+                [options?: CallOptions]
+              >)
+            );
+
+            if (options?.optimisticData !== undefined) {
+              await mutateCache(
+                (key) => matchesKey(key, { route: String(route), params }),
+                sent.then(({ data }) => data),
+                {
+                  // The cache holds GET output, not this method's output
+                  optimisticData: options.optimisticData as any,
+                  rollbackOnError: options.rollbackOnError ?? true,
+                  populateCache: false,
+                  revalidate: false,
+                }
+              ).catch(() => undefined);
             }
 
-            const result = await mutationFn(input);
+            const { data, status, headers } = await sent;
+            setResponse({ status, headers });
 
             if (options?.revalidate !== false) {
-              // Handle dynamic routes for cache invalidation
-              let baseRoute = String(route);
-              if (input && typeof input === "object") {
-                for (const [key, value] of Object.entries(input)) {
-                  if (baseRoute.includes(`[${key}]`)) {
-                    baseRoute = baseRoute.replace(`[${key}]`, String(value));
-                  }
-                }
-              }
-
-              await mutate(
-                (key) => typeof key === "string" && key.startsWith(baseRoute),
-                undefined,
-                { revalidate: true }
+              const invalidates =
+                mutationOptions?.invalidates ??
+                clientOptions.invalidates?.[route]?.[method] ??
+                [route];
+              await Promise.all(
+                invalidates.map((target) =>
+                  invalidateQueries(
+                    {
+                      route: String(target),
+                      params: paramsForRoute(String(target), params),
+                    },
+                    mutateCache
+                  )
+                )
               );
             }
 
-            return result;
+            return data;
           } catch (error) {
-            if (options?.rollbackOnError !== false && options?.optimisticData) {
-              await mutate(String(route));
+            // A cancelled mutation didn't fail, and may have unmounted
+            if (!signal.aborted && !options?.signal?.aborted) {
+              setError(error as InferError<TRoutes[TRoute][TMethod]>);
             }
             throw error;
           }
         },
-        [mutationFn, route]
+        [send, mutateCache, route, method, mutationOptions?.invalidates]
       );
 
-      return { trigger, mutate: mutationFn };
+      return { trigger, mutate: mutationFn, abort, error, response };
+    },
+
+    ...cacheHelpers(mutate),
+
+    // setQueryData and invalidate for the cache of the nearest <SWRConfig>,
+    // e.g. one isolated with `provider: () => new Map()` in tests
+    useQueryCache: () => {
+      const { mutate: mutateCache } = useSWRConfig();
+      return useMemo(() => cacheHelpers(mutateCache), [mutateCache]);
     },
   };
 }
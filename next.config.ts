@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
+import { withRouteRegistry } from "./lib/next-plugin";
 
 const nextConfig: NextConfig = {
   /* config options here */
 };
 
-export default nextConfig;
+export default withRouteRegistry(nextConfig);
@@ -0,0 +1,30 @@
+import fs from "node:fs";
+import { generateOpenApiDocument, toYaml } from "../lib/openapi";
+import { routeModules } from "../src/api-routes.generated";
+
+// Usage: tsx scripts/generate-openapi.ts [--yaml] [--out <file>]
+const args = process.argv.slice(2);
+const outIndex = args.indexOf("--out");
+const outFile = outIndex >= 0 ? args[outIndex + 1] : undefined;
+
+async function main() {
+  const document = await generateOpenApiDocument(routeModules, {
+    info: { title: "Next.js Typed API", version: "0.1.0" },
+  });
+
+  const output = args.includes("--yaml")
+    ? toYaml(document) + "\n"
+    : JSON.stringify(document, null, 2) + "\n";
+
+  if (outFile) {
+    fs.writeFileSync(outFile, output);
+    console.log(`Wrote ${outFile}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+import path from "node:path";
+import {
+  checkRegistry,
+  generateRegistry,
+  resolveRegistryOptions,
+  watchRegistry,
+} from "../lib/route-registry";
+
+// Usage: tsx scripts/generate-routes.ts [--check | --watch] [--out <file>]
+const args = process.argv.slice(2);
+const outIndex = args.indexOf("--out");
+const options = outIndex >= 0 ? { outFile: args[outIndex + 1] } : {};
+const outFile = path.relative(
+  process.cwd(),
+  resolveRegistryOptions(options).outFile
+);
+
+if (args.includes("--check")) {
+  if (!checkRegistry(options)) {
+    console.error(
+      `${outFile} is out of date. Run \`pnpm routes:generate\` and commit the result.`
+    );
+    process.exit(1);
+  }
+  console.log(`${outFile} is up to date.`);
+} else if (args.includes("--watch")) {
+  watchRegistry(options, (changed) => {
+    if (changed) console.log(`Updated ${outFile}`);
+  });
+  console.log("Watching for route changes...");
+} else {
+  const changed = generateRegistry(options);
+  console.log(changed ? `Generated ${outFile}` : `${outFile} is up to date.`);
+}
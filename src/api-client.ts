@@ -1,19 +1,25 @@
 import { createClient } from '../lib/typed-client';
-import type { ExtractHandlers } from '../lib/api-builder';
+import type { ApiRoutes } from './api-routes.generated';
 
-// Import your API routes - these will be the named exports from route.ts files
-import type * as apiUsersId from './app/api/users/[id]/route';
-import type * as apiUsers from './app/api/users/route';
-import type * as apiPosts from './app/api/posts/route';
-import type * as apiPostsSlug from './app/api/posts/[slug]/route';
+// ApiRoutes is generated from src/app/api/**/route.ts - run `pnpm routes:generate`
+// after adding a route (next dev and next build keep it up to date too)
+export type { ApiRoutes };
 
-// Define your routes - just map paths to the route exports
-export type ApiRoutes = {
-  '/api/users/[id]': ExtractHandlers<typeof apiUsersId>;
-  '/api/users': ExtractHandlers<typeof apiUsers>;
-  '/api/posts': ExtractHandlers<typeof apiPosts>;
-  '/api/posts/[slug]': ExtractHandlers<typeof apiPostsSlug>;
-};
-
-// Create and export your typed API client
-export const api = createClient<ApiRoutes>();
\ No newline at end of file
+// Create and export your typed API client. Mutations revalidate their own
+// route by default; these rules also refresh the lists they change.
+export const api = createClient<ApiRoutes>({
+  // Queries fired together on mount share one request to /api/batch
+  batch: { url: '/api/batch' },
+  // Reads and idempotent writes are retried with backoff; calls time out
+  timeout: 10_000,
+  retry: 2,
+  invalidates: {
+    '/api/users/[id]': {
+      PUT: ['/api/users/[id]', '/api/users'],
+      DELETE: ['/api/users/[id]', '/api/users'],
+    },
+    '/api/posts/[slug]': {
+      PUT: ['/api/posts/[slug]', '/api/posts'],
+    },
+  },
+});
@@ -0,0 +1,52 @@
+import { createMiddleware } from "../lib/api-builder";
+import type { CorsOptions } from "../lib/cors";
+import type {
+  ApiResponseEvent,
+  ObservabilityOptions,
+} from "../lib/observability";
+
+export type Viewer = { id: string; role: "user" | "admin" };
+
+// Resolves the signed-in user from the bearer token, or null for anonymous
+// requests. Handlers decide for themselves whether a viewer is required.
+export const withViewer = createMiddleware<{ viewer: Viewer | null }>(
+  async ({ req }, next) => {
+    const token = req.headers.get("authorization")?.replace(/^Bearer /, "");
+    // Demo lookup - swap in your session or token verification
+    const viewer: Viewer | null = token ? { id: token, role: "user" } : null;
+    return next({ viewer });
+  }
+);
+
+// Origins of the mobile and partner web apps, shared by the routes they call
+export const partnerCors: CorsOptions = {
+  origin: [
+    /^https:\/\/([a-z0-9-]+\.)?partner\.example\.com$/,
+    "capacitor://localhost",
+  ],
+  credentials: true,
+  exposedHeaders: ["Location", "ETag"],
+  maxAge: 600,
+};
+
+// Inputs can hold passwords and personal data, so only their field names
+// are logged
+function withInputKeys({ input, ...event }: ApiResponseEvent) {
+  return {
+    ...event,
+    inputKeys:
+      input && typeof input === "object" ? Object.keys(input) : undefined,
+  };
+}
+
+// One JSON line per request, for the log drain to index
+export const requestLog: ObservabilityOptions = {
+  onSuccess: (event) => console.log(JSON.stringify(withInputKeys(event))),
+  onError: ({ error, ...event }) =>
+    console.error(
+      JSON.stringify({
+        ...withInputKeys(event),
+        error: error instanceof Error ? error.message : undefined,
+      })
+    ),
+};
@@ -0,0 +1,8 @@
+import { createRequestClient } from '../lib/request';
+import type { ApiRoutes } from './api-routes.generated';
+
+// Plain async client for server components, route handlers, scripts and tests.
+// Relative URLs don't resolve outside the browser, so point it at the app.
+export const apiRequest = createRequestClient<ApiRoutes>({
+  baseUrl: process.env.API_BASE_URL ?? 'http://localhost:3000',
+});
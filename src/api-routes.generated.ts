@@ -0,0 +1,34 @@
+// This file is generated by `pnpm routes:generate`. Do not edit it by hand.
+import type { ExtractHandlers } from '../lib/api-builder';
+
+import type * as apiBatch from './app/api/batch/route';
+import type * as apiOpenapiJson from './app/api/openapi.json/route';
+import type * as apiPosts from './app/api/posts/route';
+import type * as apiPostsSlug from './app/api/posts/[slug]/route';
+import type * as apiProgress from './app/api/progress/route';
+import type * as apiUsers from './app/api/users/route';
+import type * as apiUsersId from './app/api/users/[id]/route';
+import type * as apiUsersIdAvatar from './app/api/users/[id]/avatar/route';
+
+export type ApiRoutes = {
+  '/api/batch': ExtractHandlers<typeof apiBatch>;
+  '/api/openapi.json': ExtractHandlers<typeof apiOpenapiJson>;
+  '/api/posts': ExtractHandlers<typeof apiPosts>;
+  '/api/posts/[slug]': ExtractHandlers<typeof apiPostsSlug>;
+  '/api/progress': ExtractHandlers<typeof apiProgress>;
+  '/api/users': ExtractHandlers<typeof apiUsers>;
+  '/api/users/[id]': ExtractHandlers<typeof apiUsersId>;
+  '/api/users/[id]/avatar': ExtractHandlers<typeof apiUsersIdAvatar>;
+};
+
+// Lazy loaders for server-side tooling, e.g. the OpenAPI exporter
+export const routeModules = {
+  '/api/batch': () => import('./app/api/batch/route'),
+  '/api/openapi.json': () => import('./app/api/openapi.json/route'),
+  '/api/posts': () => import('./app/api/posts/route'),
+  '/api/posts/[slug]': () => import('./app/api/posts/[slug]/route'),
+  '/api/progress': () => import('./app/api/progress/route'),
+  '/api/users': () => import('./app/api/users/route'),
+  '/api/users/[id]': () => import('./app/api/users/[id]/route'),
+  '/api/users/[id]/avatar': () => import('./app/api/users/[id]/avatar/route'),
+};
@@ -0,0 +1,9 @@
+'use server';
+
+import { createAction } from '../../lib/action';
+import { createUser, createUserLimit } from './api/users/handlers';
+
+// Same schema, handler, typed errors and rate limit as POST /api/users
+export const createUserAction = createAction(createUser, {
+  rateLimit: createUserLimit
+});
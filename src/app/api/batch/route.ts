@@ -0,0 +1,5 @@
+import { createBatchRoute } from "../../../../lib/batch";
+import { routeModules } from "../../../api-routes.generated";
+
+// Serves the typed client's batched queries, see `batch` in src/api-client.ts
+export const { POST } = createBatchRoute(routeModules);
@@ -0,0 +1,6 @@
+import { createOpenApiRoute } from "../../../../lib/openapi";
+import { routeModules } from "../../../api-routes.generated";
+
+export const { GET } = createOpenApiRoute(routeModules, {
+  info: { title: "Next.js Typed API", version: "0.1.0" },
+});
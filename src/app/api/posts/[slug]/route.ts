@@ -1,6 +1,7 @@
-import { createApiHandler } from "../../../../../lib/api-builder";
+import { createApiHandler, withSchema } from "../../../../../lib/api-builder";
+import { z } from "zod";
 
-export const { GET, PUT } = createApiHandler({
+export const { GET, PUT } = createApiHandler.route("/api/posts/[slug]")({
   GET: async (input: { slug: string }) => {
     return {
       id: input.slug,
@@ -12,12 +13,28 @@ export const { GET, PUT } = createApiHandler({
     };
   },
 
-  PUT: async (input: { slug: string; title?: string; content?: string }) => {
-    return {
-      id: input.slug,
-      title: input.title || "Updated Post",
-      content: input.content || "Updated content...",
-      updatedAt: new Date().toISOString(),
-    };
-  },
+  // Each part of the request is validated on its own, so a `title` in the
+  // body can't be shadowed by the path, and POST-style bodies can come with
+  // query params and typed headers
+  PUT: withSchema(
+    {
+      params: z.object({ slug: z.string().min(1) }),
+      query: z.object({ notify: z.boolean().default(false) }),
+      body: z.object({
+        title: z.string().min(1).optional(),
+        content: z.string().optional(),
+      }),
+      headers: z.object({ "if-match": z.string().optional() }),
+    },
+    async ({ params, query, body, headers }) => {
+      return {
+        id: params.slug,
+        title: body.title || "Updated Post",
+        content: body.content || "Updated content...",
+        notified: query.notify,
+        revision: headers["if-match"] ?? null,
+        updatedAt: new Date().toISOString(),
+      };
+    }
+  ),
 });
@@ -1,13 +1,21 @@
 import { createApiHandler } from '../../../../lib/api-builder';
+import { richTransformer } from '../../../../lib/transformer';
+import { partnerCors, requestLog } from '../../../api-middleware';
 
-export const { GET, POST } = createApiHandler({
-  GET: async (input: { category?: string; limit?: string }) => {
+// Rich serialization lets handlers return real Dates. HEAD and OPTIONS are
+// derived, and answer the partner apps' preflights.
+export const { GET, POST, HEAD, OPTIONS } = createApiHandler
+  .transformer(richTransformer)
+  .cors(partnerCors)
+  .observe(requestLog)({
+  GET: async (input: { category?: string; limit?: string; page?: string }) => {
+    const page = Number(input.page ?? 1);
     return {
       posts: [
-        { id: '1', title: 'First Post', slug: 'first-post', category: 'tech' },
-        { id: '2', title: 'Second Post', slug: 'second-post', category: 'life' }
+        { id: `${page}-1`, title: 'First Post', slug: 'first-post', category: 'tech' },
+        { id: `${page}-2`, title: 'Second Post', slug: 'second-post', category: 'life' }
       ],
-      pagination: { page: 1, totalPages: 5 }
+      pagination: { page, totalPages: 5 }
     };
   },
 
@@ -18,7 +26,7 @@ export const { GET, POST } = createApiHandler({
       slug: input.title.toLowerCase().replace(/\s+/g, '-'),
       content: input.content,
       category: input.category,
-      createdAt: new Date().toISOString()
+      createdAt: new Date()
     };
   }
 });
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { createApiHandler, withSchema } from '../../../../lib/api-builder';
+
+const ProgressSchema = z.object({
+  steps: z.number().int().min(1).max(20).default(5),
+});
+
+// Streams one chunk per step; the client hook gets them typed as
+// { step: number; total: number }
+export const { GET } = createApiHandler({
+  GET: withSchema(ProgressSchema, async function* (input, { lastEventId }) {
+    // Chunk ids count from 0, so a reconnecting client has seen steps up to
+    // lastEventId + 1
+    const first = lastEventId === undefined ? 1 : lastEventId + 2;
+    for (let step = first; step <= input.steps; step++) {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      yield { step, total: input.steps };
+    }
+  }),
+});
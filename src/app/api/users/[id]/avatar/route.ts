@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { createApiHandler, withSchema } from '../../../../../../lib/api-builder';
+
+const UploadAvatarSchema = z.object({
+  id: z.string(),
+  // Sent as multipart/form-data; the typed client builds the FormData
+  avatar: z
+    .file()
+    .max(2 * 1024 * 1024)
+    .mime(['image/png', 'image/jpeg']),
+  caption: z.string().max(200).optional(),
+});
+
+export const { POST } = createApiHandler.route('/api/users/[id]/avatar')({
+  POST: withSchema(UploadAvatarSchema, async (input) => {
+    return {
+      userId: input.id,
+      fileName: input.avatar.name,
+      size: input.avatar.size,
+      type: input.avatar.type,
+      caption: input.caption ?? null,
+    };
+  }),
+});
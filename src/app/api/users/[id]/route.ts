@@ -1,26 +1,46 @@
 import { createApiHandler, withSchema } from "../../../../../lib/api-builder";
+import { NotFound, Unauthorized } from "../../../../../lib/api-error";
+import { withViewer } from "../../../../api-middleware";
 import { z } from "zod";
 
 const UserIdSchema = z.object({
   id: z.string().min(1, "User ID is required"),
 });
 
+const UserSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  createdAt: z.string(),
+});
+
 const UpdateUserSchema = z.object({
   id: z.string().min(1, "User ID is required"),
   name: z.string().min(1, "Name cannot be empty").optional(),
   email: z.string().email({ message: "Invalid email format" }).optional(),
 });
 
-export const { GET, PUT, DELETE } = createApiHandler({
-  GET: withSchema(UserIdSchema, async (input) => {
-    // input is automatically validated and typed!
-    return {
-      id: input.id,
-      name: "John Doe",
-      email: "john@example.com",
-      createdAt: new Date().toISOString(),
-    };
-  }),
+export const { GET, PUT, DELETE } = createApiHandler
+  .route("/api/users/[id]")
+  .use(withViewer)({
+  GET: withSchema(
+    { input: UserIdSchema, output: UserSchema, errors: [NotFound] },
+    async (input) => {
+      // input is automatically validated and typed!
+      if (input.id === "0") {
+        throw NotFound(undefined, `User ${input.id} not found`);
+      }
+
+      // passwordHash is stripped by the output schema before sending
+      return {
+        id: input.id,
+        name: "John Doe",
+        email: "john@example.com",
+        passwordHash: "$2b$10$abcdefghijklmnopqrstuv",
+        createdAt: new Date().toISOString(),
+      };
+    }
+  ),
 
   PUT: withSchema(UpdateUserSchema, async (input) => {
     // input is automatically validated and typed!
@@ -32,8 +52,15 @@ export const { GET, PUT, DELETE } = createApiHandler({
     };
   }),
 
-  DELETE: withSchema(UserIdSchema, async (input) => {
-    // input is automatically validated and typed!
-    return { success: true, deletedId: input.id };
-  }),
+  DELETE: withSchema(
+    UserIdSchema,
+    async (input, { viewer }) => {
+      // viewer is added to the context by the withViewer middleware
+      if (!viewer) {
+        throw Unauthorized();
+      }
+      return { success: true, deletedId: input.id };
+    },
+    { errors: [Unauthorized] }
+  ),
 });
@@ -0,0 +1,37 @@
+import { withSchema } from '../../../../lib/api-builder';
+import { defineError } from '../../../../lib/api-error';
+import { z } from 'zod';
+
+// Shared by the POST /api/users route and the createUser Server Action.
+// Route files may only export route handlers, so it lives here.
+export const CreateUserSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  email: z.string().email({ message: 'Invalid email format' })
+});
+
+// Five creates a minute per client, counted across the route and the action
+export const createUserLimit = {
+  algorithm: 'fixed-window',
+  limit: 5,
+  window: 60,
+  name: 'create-user'
+} as const;
+
+export const EmailTaken = defineError(409, 'EMAIL_TAKEN', z.object({ email: z.string() }));
+
+export const createUser = withSchema(CreateUserSchema, async (input, { response }) => {
+  // input is automatically validated and typed from the schema!
+  if (input.email === 'john@example.com') {
+    throw EmailTaken({ email: input.email }, 'Email is already registered');
+  }
+
+  const id = Math.random().toString();
+  response.headers.set('Location', `/api/users/${id}`);
+
+  return {
+    id,
+    name: input.name,
+    email: input.email,
+    createdAt: new Date().toISOString()
+  };
+}, { errors: [EmailTaken], status: 201 });
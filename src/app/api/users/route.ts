@@ -1,40 +1,35 @@
 import { createApiHandler, withSchema } from '../../../../lib/api-builder';
 import { z } from 'zod';
+import { createUser, createUserLimit } from './handlers';
 
 // Define schemas for validation
 const GetUsersSchema = z.object({
-  limit: z.string().optional().default('10'),
-  offset: z.string().optional().default('0')
+  limit: z.number().int().min(1).max(100).default(10),
+  offset: z.number().int().min(0).default(0),
+  ids: z.array(z.string()).optional()
 });
 
-const CreateUserSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  email: z.string().email({ message: 'Invalid email format' })
-});
-
-export const { GET, POST } = createApiHandler({
+// Retried creates carrying the same Idempotency-Key create one user, and
+// each client may create five a minute, through here or the action
+export const { GET, POST } = createApiHandler
+  .idempotency()
+  .rateLimit({ ...createUserLimit, methods: ['POST'] })({
   GET: withSchema(GetUsersSchema, async (input) => {
     // input is automatically validated and typed from the schema!
-    const limit = parseInt(input.limit);
-    const offset = parseInt(input.offset);
-    
+    // Query values arrive coerced: limit and offset are numbers, ids an array
+    const { limit, offset, ids } = input;
+
     return {
       users: [
         { id: '1', name: 'John', email: 'john@example.com' },
         { id: '2', name: 'Jane', email: 'jane@example.com' }
-      ].slice(offset, offset + limit),
+      ]
+        .filter((user) => !ids || ids.includes(user.id))
+        .slice(offset, offset + limit),
       total: 50,
       hasMore: offset + limit < 50
     };
-  }),
+  }, { cache: { maxAge: 30, staleWhileRevalidate: 300 } }),
 
-  POST: withSchema(CreateUserSchema, async (input) => {
-    // input is automatically validated and typed from the schema!
-    return {
-      id: Math.random().toString(),
-      name: input.name,
-      email: input.email,
-      createdAt: new Date().toISOString()
-    };
-  })
+  POST: createUser
 });
\ No newline at end of file
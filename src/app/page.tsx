@@ -1,5 +1,6 @@
 import { UserProfile } from '../components/UserProfile';
 import { PostList } from '../components/PostList';
+import { CreateUserForm } from '../components/CreateUserForm';
 
 export default function Home() {
   return (
@@ -28,6 +29,13 @@ export default function Home() {
           </div>
         </div>
 
+        <div className="space-y-4">
+          <h2 className="text-2xl font-semibold">Create User (Server Action)</h2>
+          <div className="border rounded-lg p-6">
+            <CreateUserForm />
+          </div>
+        </div>
+
         <div className="text-center space-y-4">
           <h3 className="text-xl font-semibold">Features</h3>
           <div className="grid md:grid-cols-3 gap-4 text-sm">
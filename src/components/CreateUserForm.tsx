@@ -0,0 +1,28 @@
+"use client";
+
+import { useActionState } from "react";
+import { createUserAction } from "../app/actions";
+
+export function CreateUserForm() {
+  // ✨ State is typed as { data } | { error, fieldErrors }
+  const [state, formAction, isPending] = useActionState(createUserAction, null);
+
+  return (
+    <form action={formAction} className="space-y-2">
+      <input name="name" placeholder="Name" className="border p-1" />
+      {state?.fieldErrors?.name && <p>{state.fieldErrors.name[0]}</p>}
+
+      <input name="email" placeholder="Email" className="border p-1" />
+      {state?.fieldErrors?.email && <p>{state.fieldErrors.email[0]}</p>}
+
+      <button type="submit" disabled={isPending}>
+        Create User
+      </button>
+
+      {state?.error?.code === "EMAIL_TAKEN" && (
+        <p>{state.error.data.email} is already registered</p>
+      )}
+      {state?.data && <p>Created {state.data.name}</p>}
+    </form>
+  );
+}
@@ -3,11 +3,18 @@
 import { api } from "../api-client";
 
 export function PostList() {
-  // TypeScript knows the exact shape of the response
-  const { data, isLoading } = api.useQuery("/api/posts", {
-    category: "tech",
-    limit: "10",
-  });
+  // TypeScript knows the exact shape of every page
+  const { pages, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    api.useInfiniteQuery(
+      "/api/posts",
+      { category: "tech", limit: "10" },
+      {
+        getNextPageParam: ({ pagination }) =>
+          pagination.page < pagination.totalPages
+            ? { page: String(pagination.page + 1) }
+            : null,
+      }
+    );
 
   const { trigger: createPost } = api.useMutation("/api/posts", "POST");
 
@@ -25,15 +32,19 @@ export function PostList() {
   return (
     <div>
       <button onClick={handleCreate}>Create Post</button>
-      {data?.posts.map((post) => (
-        <div key={post.id}>
-          <h3>{post.title}</h3>
-          <p>Category: {post.category}</p>
-        </div>
-      ))}
-      <p>
-        Page {data?.pagination.page} of {data?.pagination.totalPages}
-      </p>
+      {pages?.flatMap((page) =>
+        page.posts.map((post) => (
+          <div key={post.id}>
+            <h3>{post.title}</h3>
+            <p>Category: {post.category}</p>
+          </div>
+        ))
+      )}
+      {hasNextPage && (
+        <button onClick={fetchNextPage} disabled={isFetchingNextPage}>
+          {isFetchingNextPage ? "Loading..." : "Load more"}
+        </button>
+      )}
     </div>
   );
 }
@@ -18,15 +18,19 @@ export function UserProfile({ userId }: { userId: string }) {
 
   const handleUpdate = async () => {
     // TypeScript validates this input matches the PUT handler type!
-    const res = await updateUser({
-      id: userId,
-      name: "New Name",
-      email: "new@example.com",
-    });
+    const res = await updateUser(
+      { id: userId, name: "New Name", email: "new@example.com" },
+      {
+        // Shown in this user's cached query until the PUT settles
+        optimisticData: (current) => current && { ...current, name: "New Name" },
+      }
+    );
     console.log(res);
   };
 
   if (isLoading) return <div>Loading...</div>;
+  // ✨ Errors are a typed union discriminated by `code`
+  if (error?.code === "NOT_FOUND") return <div>No user found</div>;
   if (error) return <div>Error: {error.message}</div>;
   if (!user) return <div>No user found</div>;
 
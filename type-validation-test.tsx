@@ -1,5 +1,24 @@
 // Comprehensive test to validate that our type system is working
-import { api } from './src/api-client';
+import { api, type ApiRoutes } from './src/api-client';
+import { parts } from './lib/request';
+import { createClient } from './lib/typed-client';
+
+// A client for another origin with a token provider and typed interceptors
+const remoteApi = createClient<ApiRoutes>({
+  baseUrl: "https://api.example.com",
+  headers: async () => ({ Authorization: `Bearer ${await Promise.resolve("token")}` }),
+  onRequest: (request) => {
+    if (request.route === "/api/users/[id]") {
+      // Narrowed to the methods the route defines
+      const method: "GET" | "PUT" | "DELETE" = request.method;
+      const headers = new Headers(request.init.headers);
+      headers.set("X-Method", method);
+      return { ...request.init, headers };
+    }
+  },
+  onError: ({ route, error }) => console.error(route, error),
+  swr: { dedupingInterval: 5000 },
+});
 
 function TypeValidationComponent() {
   // Valid usage - these should all work without TypeScript errors
@@ -12,6 +31,16 @@ function TypeValidationComponent() {
   const userQuery = api.useQuery("/api/users/[id]", { id: "123" });
   const usersListQuery = api.useQuery("/api/users", {});
   
+  // Offset pagination over the users list
+  const usersPages = api.useInfiniteQuery("/api/users", { limit: 10 }, {
+    getNextPageParam: (lastPage, { pageParam }) =>
+      lastPage.hasMore ? { offset: (pageParam?.offset ?? 0) + 10 } : null,
+  });
+  
+  // Streamed chunks typed from the generator's yields
+  const progress = api.useStream("/api/progress", "GET", { steps: 3 });
+  const progressStep: number | undefined = progress.latest?.step;
+  
   // Post by slug
   const postBySlugQuery = api.useQuery("/api/posts/[slug]", { slug: "my-post" });
   
@@ -19,14 +48,22 @@ function TypeValidationComponent() {
   const { trigger: createPost } = api.useMutation("/api/posts", "POST");
   const { trigger: updateUser } = api.useMutation("/api/users/[id]", "PUT");
   const { trigger: deleteUser } = api.useMutation("/api/users/[id]", "DELETE");
+  const { trigger: createUser, error: createUserError } = api.useMutation("/api/users", "POST", {
+    timeout: 5000
+  });
+  const { trigger: updatePost } = api.useMutation("/api/posts/[slug]", "PUT");
+  // Inputs with a File are sent as multipart/form-data
+  const { trigger: uploadAvatar } = api.useMutation("/api/users/[id]/avatar", "POST");
   
   const handleCreatePost = async () => {
     // This should work - all required fields provided
-    await createPost({
+    const post = await createPost({
       title: "New Post",
       content: "Post content here",
       category: "tech"
     });
+    // The posts route uses richTransformer, so createdAt arrives as a Date
+    return post.createdAt.getFullYear();
   };
   
   const handleUpdateUser = async () => {
@@ -38,6 +75,36 @@ function TypeValidationComponent() {
     });
   };
   
+  const handleUpdatePost = async () => {
+    // The handler declares separate parts, so the input is split the same way
+    const post = await updatePost(parts({
+      params: { slug: "my-post" },
+      query: { notify: true },
+      body: { title: "Renamed" },
+      headers: { "if-match": "3" },
+    }));
+    return post.notified;
+  };
+
+  const handleUploadAvatar = async (avatar: File) => {
+    const { size } = await uploadAvatar({ id: "123", avatar });
+    return size;
+  };
+  
+  const handleCreateUser = async (signal: AbortSignal) => {
+    // Safe to retry: the route runs each idempotency key once
+    await createUser(
+      { name: "New User", email: "new@example.com" },
+      { idempotencyKey: true, retry: 3, signal }
+    );
+  };
+
+  const handleRemoteRefresh = () => remoteApi.invalidate("/api/users");
+  // Bound to the cache of the nearest <SWRConfig provider>
+  const { setQueryData } = api.useQueryCache();
+  const handleRename = () =>
+    setQueryData("/api/users/[id]", { id: "1" }, (user) => user && { ...user, name: "Ada" });
+
   const handleDeleteUser = async () => {
     // This should work - only id needed for DELETE
     await deleteUser({ id: "123" });
@@ -59,9 +126,20 @@ function TypeValidationComponent() {
         )}
       </section>
       
+      <section>
+        <h2>Users</h2>
+        {usersPages.pages?.map((page) =>
+          page.users.map((user) => <p key={user.id}>{user.name}</p>)
+        )}
+        {usersPages.hasNextPage && (
+          <button onClick={usersPages.fetchNextPage}>Load more</button>
+        )}
+      </section>
+      
       <section>
         <h2>User</h2>
         {userQuery.isLoading && <p>Loading user...</p>}
+        {userQuery.error?.code === "NOT_FOUND" && <p>User not found</p>}
         {userQuery.data && (
           <div>
             <h3>{userQuery.data.name}</h3>
@@ -70,6 +148,17 @@ function TypeValidationComponent() {
         )}
       </section>
       
+      <section>
+        <h2>Errors</h2>
+        {/* Declared errors narrow on `code` to their typed payload */}
+        {createUserError?.code === "EMAIL_TAKEN" && (
+          <p>{createUserError.data.email} is already registered</p>
+        )}
+        {createUserError?.code === "VALIDATION_ERROR" && (
+          <p>{createUserError.issues.length} invalid fields</p>
+        )}
+      </section>
+      
       <section>
         <h2>Actions</h2>
         <button onClick={handleCreatePost}>Create Post</button>